@@ -0,0 +1,50 @@
+// Stub HTTP change feed for trying `agent monitor` locally.
+//
+//   pnpm stub-feed [changes.json] [--port 8787] [--fail <n>]
+//
+// Serves the changes of a changes file, one per poll: `GET /?since=<n>`
+// answers {"changes": [change n], "cursor": "<n + 1>"}, and 204 once all were
+// served. The file is read on every request, so changes appended to it are
+// picked up. `--fail <n>` answers the first n requests with 503, to see the
+// monitor keep failed polls' changes pending.
+import http from "node:http";
+import { loadChangesFromFile } from "../src/jumpstarter/client.js";
+
+function option(args: string[], name: string, fallback: number): number {
+  const i = args.indexOf(name);
+  return i >= 0 ? Number(args[i + 1]) : fallback;
+}
+
+const args = process.argv.slice(2);
+const file = args[0] && !args[0].startsWith("--") ? args[0] : "examples/input-change.json";
+const port = option(args, "--port", 8787);
+let failures = option(args, "--fail", 0);
+
+const server = http.createServer(async (req, res) => {
+  const since = Number(new URL(req.url || "/", `http://localhost:${port}`).searchParams.get("since") || 0);
+  if (failures > 0) {
+    failures--;
+    console.log(`GET ${req.url} -> 503`);
+    res.writeHead(503).end();
+    return;
+  }
+  try {
+    const changes = await loadChangesFromFile(file);
+    if (since >= changes.length) {
+      console.log(`GET ${req.url} -> 204`);
+      res.writeHead(204).end();
+      return;
+    }
+    console.log(`GET ${req.url} -> ${changes[since].id}`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ changes: [changes[since]], cursor: String(since + 1) }));
+  } catch (error: any) {
+    console.log(`GET ${req.url} -> 500 ${error.message}`);
+    res.writeHead(500, { "Content-Type": "text/plain" }).end(error.message);
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Serving ${file} at http://localhost:${port}/`);
+  console.log(`Try: pnpm agent monitor --source http://localhost:${port}/ --tasks examples/task.yaml --out-dir /tmp/monitor-out --once`);
+});
@@ -2,6 +2,21 @@
 // Agent CLI: Command-line interface for the agent
 import { AgentOrchestrator } from "./orchestrator.js";
 import { startMCPServer } from "./mcp-server.js";
+import { lintTaskYaml, formatLintFindings } from "../tekton/lint.js";
+import { checkTaskYaml, applyDeterministicRules, writeOut } from "../tekton/updater.js";
+import { migrateResource } from "../tekton/migrate.js";
+import { splitGlobList } from "../tekton/files.js";
+import { TektonTarget, checkTarget, loadTarget, targetIssues } from "../tekton/target.js";
+import { LLMProvider, ProviderConfig, ProviderName, enabledProvider } from "../llm/providers.js";
+import { loadRules, matchingChanges, describeAction } from "../tekton/rules.js";
+import { loadChanges } from "../jumpstarter/client.js";
+import { loadChangesFromGit } from "../jumpstarter/git.js";
+import { loadChangesFromExporterConfigs } from "../jumpstarter/exporter.js";
+import { ChangeValidationError, changeSchema, normalizeChanges } from "../jumpstarter/changes.js";
+import { describeClassification } from "../jumpstarter/classify.js";
+import { ImpactClassification } from "../types.js";
+import { colorizeDiff, describeChanges, parseOutputFormat, renderProposal, useColor } from "../tekton/diff.js";
+import fs from "node:fs";
 import path from "node:path";
 
 function showHelp() {
@@ -16,23 +31,51 @@ COMMANDS:
   analyze       Analyze impact of changes
   batch         Process multiple tasks in batch
   auto-update   Automatically apply low-impact changes
+  monitor       Poll a change feed and update Tasks as new changes arrive
+  lint          Check param/result/workspace references in a Task
+  migrate       Convert a tekton.dev/v1beta1 Task or Pipeline to v1
+  changes       Read Jumpstarter changes from a git checkout or exporter configs
+                into a changes file
+  rules         List rules or test them against changes (rules list|test)
   mcp-server    Start MCP server for AI assistant integration
   state         Show agent state and statistics
   help          Show this help message
 
 PROPOSE OPTIONS:
   --task <path>       Path to Tekton Task YAML file
-  --changes <path>    Path to Jumpstarter changes JSON file
+  --changes <path>    Path to Jumpstarter changes JSON/YAML file, or git:<repo>[#<from>..<to>]
+                      to read them from a Jumpstarter checkout (see CHANGES OPTIONS);
+                      the same goes for --changes of every other command
   --out <path>        Output path for updated YAML (optional)
+  --pipelines-dir <path>  Also wire new Task params into Pipelines found here
+  --pipelines-out <path>  Output directory for updated Pipelines (optional)
+  --companions-dir <path> Write ServiceAccount/RBAC manifests here instead of
+                          appending them as extra documents (optional)
+  --format <fmt>      yaml (default), diff (unified diff against --task),
+                      patch (JSON Patch, ops tagged with their rule) or json (all of it)
+  --bump-version      Bump the app.kubernetes.io/version label (major/minor/patch
+                      from the param/result/workspace changes) and record the
+                      change IDs in the jumpstarter.dev/change-ids annotation
+  --changelog         --bump-version, plus an entry in CHANGELOG.md next to --out
 
 ANALYZE OPTIONS:
   --task <path>       Path to Tekton Task YAML file
   --changes <path>    Path to Jumpstarter changes JSON file
+  --classify-llm      Ask the LLM too when inferring impact areas of changes that
+                      declare none (also for auto-update; default: $TEKTON_CLASSIFY_LLM)
 
 BATCH OPTIONS:
-  --tasks-dir <path>  Directory containing Tekton Task YAML files
+  --tasks-dir <path>  Directory of Tekton YAML, searched recursively; multi-document
+                      files are updated document by document
   --changes <path>    Path to Jumpstarter changes JSON file
-  --out-dir <path>    Output directory for updated YAML files
+  --out-dir <path>    Output directory; files keep their path relative to --tasks-dir
+                      (ServiceAccount/RBAC manifests go to <out-dir>/companions)
+  --include <globs>   Comma-separated globs relative to --tasks-dir
+                      (default: **/*.yaml,**/*.yml)
+  --exclude <globs>   Comma-separated globs to leave out, e.g. "**/kustomization.yaml"
+  --bump-version      As for propose
+  --changelog         As for propose; CHANGELOG.md next to each output file
+  --verbose           List every file and document
 
 AUTO-UPDATE OPTIONS:
   --task <path>       Path to Tekton Task YAML file
@@ -40,6 +83,76 @@ AUTO-UPDATE OPTIONS:
   --out <path>        Output path for updated YAML
   --threshold <n>     Auto-apply threshold (0-1, default: 0.7)
 
+MONITOR OPTIONS:
+  --source <src>      Change feed: a changes file, a directory of changes files,
+                      git:<repo>[#<from>..<to>] or an http(s):// JSON feed
+  --tasks <path>      Tekton Task YAML file, or a directory of them
+  --out-dir <path>    Where updated Tasks go, keeping their path relative to --tasks
+                      (ServiceAccount/RBAC manifests go to <out-dir>/companions)
+  --interval <secs>   Seconds between polls (default: 60)
+  --once              Poll once, process what is new and exit
+  --include <globs>, --exclude <globs>  As for batch, when --tasks is a directory
+  The feed's cursor and the ids already acted on are kept in <state-dir>/monitor.json;
+  changes whose update failed come back with the next poll.
+
+LINT OPTIONS:
+  --task <path>       Path to Tekton Task YAML file
+  --json              Print findings as JSON
+
+MIGRATE OPTIONS:
+  --task <path>       v1beta1 Task or Pipeline YAML file
+  --out <path>        Output path for the v1 YAML (optional; may be --task)
+  --format <fmt>      yaml (default), diff, patch or json, as for propose
+
+CHANGES OPTIONS:
+  --git <path>        Local Jumpstarter checkout, or:
+  --old-exporters <path>, --new-exporters <path>
+                      Two versions of an exporter config (or of a directory of them);
+                      each added, removed or reconfigured driver is a change
+  --from <ref>        Start of the range, exclusive (default: the last tag before --to)
+  --to <ref>          End of the range (default: HEAD)
+  --by <unit>         commit (default; one change per conventional commit) or tag
+                      (one change per tag in the range)
+  --changelog <path>  CHANGELOG.md to read new sections from (default: CHANGELOG.md)
+  --no-changelog      Read commits only
+  --out <path>        Write the changes JSON here instead of stdout
+  In --changes, the same settings read git:<repo>#<from>..<to>?by=tag&changelog=<path>
+  and exporter:<old>,<new>.
+  --check <path>      Validate a changes file (or git:/exporter: source) against the
+                      JumpstarterChange schema; prints the normalized changes
+  --schema            Print the JumpstarterChange JSON Schema
+
+RULES OPTIONS:
+  list                List built-in rules and rule packs
+  test                Show which rules match the changes and what they do
+  --rules-dir <path>  Directory of rule packs (default: $TEKTON_RULES_DIR)
+  --changes <path>    Jumpstarter changes JSON file (test)
+  --task <path>       Tekton YAML to apply matching rules to (test, optional)
+  --rule <name>       Only test this rule
+  --json              Print as JSON
+
+  --rules-dir is also accepted by propose, analyze, batch, auto-update and mcp-server.
+
+TARGET OPTIONS (propose, batch, auto-update, lint, mcp-server):
+  --tekton-version <v>     Tekton Pipelines release proposals must run on, e.g. 0.53
+                           (default: $TEKTON_PIPELINES_VERSION)
+  --feature-flags <flags>  Enabled feature flags, e.g. enable-api-fields=beta, or the
+                           path of the feature-flags ConfigMap YAML
+                           (default: $TEKTON_FEATURE_FLAGS)
+  Proposals that add a feature the target lacks (StepActions, array/object results,
+  matrix, ...) are rejected; a new PipelineTask displayName is dropped instead.
+
+LLM OPTIONS (propose, analyze, batch, auto-update, monitor, mcp-server):
+  --llm [provider]    Use an LLM: openai, anthropic, ollama, llamacpp or mock
+                      (default: $LLM_PROVIDER, else OpenAI or Anthropic when their
+                      API key is set); fails if none is configured
+  --llm-model <name>  Model for the provider (default: its *_MODEL variable)
+  --no-llm            Apply deterministic rules only
+  --repair-attempts <n>  Times a proposal that fails validation or lint goes back to
+                      the LLM with its errors before falling back to the rules-only
+                      result (default: $LLM_REPAIR_ATTEMPTS or 2)
+  Without either flag an LLM is used whenever a provider is configured.
+
 MCP-SERVER OPTIONS:
   --state-dir <path>  Directory for agent state (default: .agent-state)
 
@@ -51,15 +164,61 @@ EXAMPLES:
   # Propose updates with LLM
   agent propose --task task.yaml --changes changes.json --out updated.yaml
 
+  # Propose updates and wire new params into Pipelines that use the Task
+  agent propose --task task.yaml --changes changes.json --pipelines-dir ./pipelines
+
+  # Review a proposal as a diff, or save its JSON Patch
+  agent propose --task task.yaml --changes changes.json --format diff
+  agent propose --task task.yaml --changes changes.json --format patch --out proposal.patch.json
+
+  # Bump a catalog Task's version and add a CHANGELOG entry next to it
+  agent propose --task task/build/0.3/build.yaml --changes changes.json \
+    --out task/build/0.3/build.yaml --changelog
+
   # Analyze impact before applying
   agent analyze --task task.yaml --changes changes.json
 
   # Batch process multiple tasks
   agent batch --tasks-dir ./tasks --changes changes.json --out-dir ./updated
 
+  # Batch process a nested tree, skipping tests and vendored Tasks
+  agent batch --tasks-dir ./tekton --changes changes.json --out-dir ./updated \
+    --exclude "**/tests/**,vendor/**"
+
   # Auto-apply low-impact changes
   agent auto-update --task task.yaml --changes changes.json --out task.yaml
 
+  # Find undefined or unused params, results and workspaces
+  agent lint --task task.yaml
+
+  # Hold proposals to what a Tekton Pipelines v0.53 cluster with beta fields serves
+  agent propose --task task.yaml --changes changes.json \
+    --tekton-version 0.53 --feature-flags enable-api-fields=beta
+
+  # Turn the Jumpstarter commits since the last release into a changes file
+  agent changes --git ../jumpstarter --from v0.6.0 --out changes.json
+
+  # Or read them straight from the checkout
+  agent propose --task task.yaml --changes "git:../jumpstarter#v0.6.0..main"
+
+  # Check a hand-written changes file before using it
+  agent changes --check changes.yaml
+
+  # Turn an exporter config update into changes (new storage mux -> device mount + param)
+  agent changes --old-exporters exporters-main/ --new-exporters exporters/ --out changes.json
+
+  # Convert a v1beta1 Task and review what could not be converted
+  agent migrate --task task.yaml --format diff
+
+  # Check what a rule pack would do before enabling it
+  agent rules test --rules-dir ./rules --changes changes.json --task task.yaml
+
+  # Update the Tasks in ./tasks whenever the Jumpstarter checkout gains commits
+  agent monitor --source git:../jumpstarter --tasks ./tasks --out-dir ./proposed --interval 300
+
+  # Propose with a local model served by Ollama
+  agent propose --task task.yaml --changes changes.json --llm ollama --llm-model qwen2.5-coder
+
   # Start MCP server for Cursor/Claude integration
   agent mcp-server
 
@@ -67,12 +226,268 @@ EXAMPLES:
   agent state --verbose
 
 ENVIRONMENT:
-  OPENAI_API_KEY     Required for LLM-based proposals
+  LLM_PROVIDER       Default for --llm
+  OPENAI_API_KEY     Required for the openai provider (selects it by default)
   OPENAI_BASE        OpenAI API base URL (default: https://api.openai.com/v1)
   OPENAI_MODEL       Model to use (default: gpt-4o-mini)
+  ANTHROPIC_API_KEY  Required for the anthropic provider (selects it by default)
+  ANTHROPIC_BASE_URL, ANTHROPIC_MODEL  (default: https://api.anthropic.com, claude-3-5-haiku-latest)
+  OLLAMA_HOST, OLLAMA_MODEL            (default: http://127.0.0.1:11434, llama3.1)
+  LLAMACPP_BASE, LLAMACPP_MODEL        llama.cpp server (default: http://127.0.0.1:8080/v1, local)
+  LLM_TIMEOUT_MS     Per-request timeout (default: 60000; 300000 for ollama, llamacpp)
+  LLM_MAX_RETRIES    Retries on 429, 5xx, timeouts and network errors (default: 3)
+  LLM_BACKOFF_MS     First retry delay, doubled each retry (default: 1000)
+  LLM_REPAIR_ATTEMPTS  Default for --repair-attempts
+  LLM_MOCK_RESPONSE  File the mock provider returns (default: "{}", no edits)
+  TEKTON_RULES_DIR   Default for --rules-dir
+  TEKTON_PIPELINES_VERSION, TEKTON_FEATURE_FLAGS  Defaults for --tekton-version, --feature-flags
+  TEKTON_CLASSIFY_LLM  "true" to default to --classify-llm
 `);
 }
 
+// Runs schema validation plus the semantic linter, and the target check when
+// a target is configured; exits non-zero on errors.
+function lintCommand(options: Record<string, any>) {
+  const { task } = options;
+  if (!task) {
+    console.error("Error: --task is required");
+    process.exit(1);
+  }
+
+  const target = targetOption(options);
+  const yamlStr = fs.readFileSync(path.resolve(task), "utf8");
+  const schemaErrors = checkTaskYaml(yamlStr).errors;
+  if (target && !schemaErrors.some(e => e.keyword === "parse")) schemaErrors.push(...targetIssues(checkTarget(yamlStr, target)));
+  const findings = schemaErrors.some(e => e.keyword === "parse") ? [] : lintTaskYaml(yamlStr);
+  const hasErrors = schemaErrors.length > 0 || findings.some(f => f.severity === "error");
+
+  if (options.json) {
+    process.stdout.write(JSON.stringify({ schemaErrors, findings }, null, 2) + "\n");
+  } else {
+    schemaErrors.forEach(e => console.log(`[error] ${e.path}: ${e.message} (${e.keyword === "target" ? "target" : "schema"})`));
+    formatLintFindings(findings).forEach(l => console.log(l));
+    const count = (s: string) => findings.filter(f => f.severity === s).length;
+    console.log(`\n${schemaErrors.length + count("error")} error(s), ${count("warning")} warning(s), ${count("info")} info`);
+  }
+
+  process.exit(hasErrors ? 1 : 0);
+}
+
+// Deterministic v1beta1 -> v1 conversion. The result goes to stdout or --out,
+// the report to stderr; exits non-zero if the output still fails the v1 schema.
+async function migrateCommand(options: Record<string, any>) {
+  const { task, out } = options;
+  if (!task) {
+    console.error("Error: --task is required");
+    process.exit(1);
+  }
+
+  const yamlStr = fs.readFileSync(path.resolve(task), "utf8");
+  let result;
+  try {
+    result = migrateResource(yamlStr);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+  const format = parseOutputFormat(options.format);
+  const { diff, patch, baseHash } = describeChanges(yamlStr, result.yaml, [{ source: "migrate", yaml: result.yaml }], "migrate", task);
+  const output = renderProposal(format, {
+    updatedYaml: result.yaml,
+    baseHash,
+    diff,
+    patch,
+    converted: result.converted,
+    unconverted: result.unconverted,
+    schemaErrors: result.schemaErrors
+  });
+
+  if (out) await writeOut(out, output);
+  else process.stdout.write(format === "diff" && useColor(process.stdout) ? colorizeDiff(output) : output);
+
+  if (result.converted.length === 0) console.error(`${task} is already a tekton.dev/v1 ${result.kind}`);
+  else console.error([`Converted (${result.converted.length}):`, ...result.converted.map(c => `  - ${c}`)].join("\n"));
+  if (result.unconverted.length > 0) {
+    console.error([`Could not convert (${result.unconverted.length}):`, ...result.unconverted.map(u => `  - ${u.path}: ${u.construct}: ${u.message}`)].join("\n"));
+  }
+  if (result.schemaErrors.length > 0) {
+    console.error([`Still invalid as tekton.dev/v1 (${result.schemaErrors.length}):`, ...result.schemaErrors.map(e => `  - ${e.path}: ${e.message}`)].join("\n"));
+  }
+  if (out) console.error(`Wrote ${out}`);
+  process.exit(result.schemaErrors.length > 0 ? 1 : 0);
+}
+
+// Reads a git range or an exporter config diff into a changes file; what
+// was skipped goes to stderr. --check validates an existing changes source.
+async function changesCommand(options: Record<string, any>) {
+  if (options.schema) {
+    process.stdout.write(JSON.stringify(changeSchema, null, 2) + "\n");
+    process.exit(0);
+  }
+  if (options.check) {
+    let changes;
+    try {
+      changes = await loadChanges(String(options.check));
+    } catch (error: any) {
+      if (!(error instanceof ChangeValidationError)) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      console.error([`${error.source}: ${error.errors.length} problem(s)`, ...error.errors.map(e => `  ${e.path}: ${e.message}`)].join("\n"));
+      process.exit(1);
+    }
+    const json = JSON.stringify(changes, null, 2) + "\n";
+    if (options.out) await writeOut(options.out, json);
+    else process.stdout.write(json);
+    console.error(`${options.check}: ${changes.length} valid change(s)`);
+    process.exit(0);
+  }
+  if (options["old-exporters"] || options["new-exporters"]) {
+    if (!options["old-exporters"] || !options["new-exporters"]) {
+      console.error("Error: --old-exporters and --new-exporters go together");
+      process.exit(1);
+    }
+    let changes;
+    try {
+      changes = normalizeChanges(await loadChangesFromExporterConfigs(String(options["old-exporters"]), String(options["new-exporters"])), "exporter configs");
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    const json = JSON.stringify(changes, null, 2) + "\n";
+    if (options.out) await writeOut(options.out, json);
+    else process.stdout.write(json);
+    console.error(`${changes.length} driver change(s)`);
+    changes.forEach(c => console.error(`  - ${c.title}`));
+    if (options.out) console.error(`Wrote ${options.out}`);
+    process.exit(0);
+  }
+  if (!options.git) {
+    console.error("Error: --git, --old-exporters/--new-exporters or --check is required");
+    process.exit(1);
+  }
+  if (options.by !== undefined && options.by !== "commit" && options.by !== "tag") {
+    console.error("Error: --by must be commit or tag");
+    process.exit(1);
+  }
+
+  let result;
+  try {
+    result = await loadChangesFromGit({
+      repo: String(options.git),
+      from: options.from !== undefined ? String(options.from) : undefined,
+      to: options.to !== undefined ? String(options.to) : undefined,
+      by: options.by,
+      changelog: options["no-changelog"] ? false : options.changelog !== undefined ? String(options.changelog) : undefined
+    });
+    result.changes = normalizeChanges(result.changes, String(options.git));
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+
+  const json = JSON.stringify(result.changes, null, 2) + "\n";
+  if (options.out) await writeOut(options.out, json);
+  else process.stdout.write(json);
+
+  console.error(`Read ${result.from ? `${result.from.slice(0, 7)}..` : ""}${result.to.slice(0, 7)}: ${result.changes.length} change(s)`);
+  if (result.skipped.length > 0) {
+    console.error([`Skipped (${result.skipped.length}; not conventional, or docs/test/chore/ci/style/build):`, ...result.skipped.map(s => `  - ${s}`)].join("\n"));
+  }
+  if (options.out) console.error(`Wrote ${options.out}`);
+  process.exit(0);
+}
+
+// `rules list` / `rules test`: inspect rule packs without running the agent.
+async function rulesCommand(sub: string | undefined, options: Record<string, any>) {
+  let rules;
+  try {
+    rules = loadRules(options["rules-dir"]);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+
+  if (sub === "list") {
+    if (options.json) {
+      process.stdout.write(JSON.stringify(rules, null, 2) + "\n");
+    } else {
+      for (const r of rules) {
+        console.log(`${r.name} (${r.source})`);
+        if (r.description) console.log(`  ${r.description}`);
+        console.log(`  match:   ${JSON.stringify(r.match)}`);
+        console.log(`  actions: ${r.actions.map(describeAction).join("; ")}`);
+      }
+      console.log(`\n${rules.length} rule(s)`);
+    }
+    process.exit(0);
+  }
+
+  if (sub === "test") {
+    if (!options.changes) {
+      console.error("Error: --changes is required");
+      process.exit(1);
+    }
+    const changes = await loadChanges(options.changes);
+    const selected = options.rule ? rules.filter(r => r.name === options.rule) : rules;
+    if (options.rule && selected.length === 0) {
+      console.error(`Error: no rule named ${options.rule}`);
+      process.exit(1);
+    }
+
+    const matches = selected.map(r => ({ rule: r.name, source: r.source, changes: matchingChanges(r, changes).map(c => c.id) }));
+    const yamlStr = options.task ? fs.readFileSync(path.resolve(options.task), "utf8") : undefined;
+    const results = yamlStr ? applyDeterministicRules(yamlStr, changes, selected) : [];
+    const updatedYaml = [...results].reverse().find(r => r.yaml)?.yaml;
+
+    if (options.json) {
+      process.stdout.write(JSON.stringify({ matches, results: results.map(({ yaml, ...r }) => r), updatedYaml }, null, 2) + "\n");
+      process.exit(0);
+    }
+    for (const m of matches) {
+      console.error(`${m.rule} (${m.source}): ${m.changes.length ? `matches ${m.changes.join(", ")}` : "no matching change"}`);
+      results.find(r => r.name === m.rule)?.notes.forEach(n => console.error(`  - ${n}`));
+    }
+    if (updatedYaml) process.stdout.write(updatedYaml);
+    else if (yamlStr) console.error("\nNo changes to the resource");
+    process.exit(0);
+  }
+
+  console.error("Usage: agent rules list|test [options]");
+  process.exit(1);
+}
+
+// --tekton-version/--feature-flags, falling back to the environment.
+function targetOption(options: Record<string, any>): TektonTarget | undefined {
+  const version = options["tekton-version"];
+  const flags = options["feature-flags"];
+  try {
+    return loadTarget(version !== undefined ? String(version) : undefined, flags !== undefined ? String(flags) : undefined);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Commands that can ask an LLM; the rest never resolve a provider.
+const LLM_COMMANDS = ["propose", "analyze", "batch", "auto-update", "monitor", "mcp-server"];
+
+// --llm/--llm-model/--no-llm; resolving the provider here reports a bad
+// configuration before anything runs.
+function llmOption(options: Record<string, any>): LLMProvider | undefined {
+  const enableLLM = options["no-llm"] ? false : options.llm !== undefined ? true : undefined;
+  const llm: ProviderConfig = {
+    provider: typeof options.llm === "string" ? options.llm as ProviderName : undefined,
+    model: options["llm-model"] !== undefined ? String(options["llm-model"]) : undefined
+  };
+  try {
+    return enabledProvider(enableLLM, llm);
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
+
 function parseArgs(argv: string[]): { command: string; options: Record<string, any> } {
   const [, , command, ...args] = argv;
   const options: Record<string, any> = {};
@@ -83,8 +498,8 @@ function parseArgs(argv: string[]): { command: string; options: Record<string, a
       const value = args[i + 1];
       
       if (value && !value.startsWith("--")) {
-        // Convert numeric strings to numbers
-        options[key] = isNaN(Number(value)) ? value : Number(value);
+        // Convert numeric strings to numbers, unless that loses digits ("0.50" is a version)
+        options[key] = String(Number(value)) === value ? Number(value) : value;
         i++; // Skip next arg
       } else {
         options[key] = true; // Flag without value
@@ -103,10 +518,44 @@ async function main() {
     process.exit(0);
   }
 
+  if (command === "lint") {
+    lintCommand(options);
+  }
+
+  if (command === "migrate") {
+    await migrateCommand(options);
+  }
+
+  if (command === "changes") {
+    await changesCommand(options);
+  }
+
+  if (command === "rules") {
+    await rulesCommand(process.argv[3], options);
+  }
+
+  // A proposal printed to stdout gets redirected into a file or `apply`, so
+  // the progress logging of the agent, its core and state go to stderr
+  const printsProposal = !options.out || (options["pipelines-dir"] && !options["pipelines-out"]);
+  if (command === "propose" && printsProposal) {
+    console.log = console.error;
+  }
+
+  const provider = LLM_COMMANDS.includes(command) ? llmOption(options) : undefined;
+  const repairAttempts = options["repair-attempts"];
+  if (repairAttempts !== undefined && !(Number.isInteger(repairAttempts) && repairAttempts >= 0)) {
+    console.error("Error: --repair-attempts must be a whole number, 0 or more");
+    process.exit(1);
+  }
   const orchestrator = new AgentOrchestrator({
     stateDir: options["state-dir"],
-    autoApplyThreshold: options.threshold
-  });
+    rulesDir: options["rules-dir"],
+    autoApplyThreshold: options.threshold,
+    target: targetOption(options),
+    classifyWithLLM: options["classify-llm"] ? true : undefined,
+    enableLLM: provider !== undefined,
+    llmRepairAttempts: repairAttempts
+  }, provider);
 
   await orchestrator.initialize();
 
@@ -118,12 +567,41 @@ async function main() {
           console.error("Error: --task and --changes are required");
           process.exit(1);
         }
+        const format = parseOutputFormat(options.format);
+        const versioning = { bump: !!options["bump-version"], changelog: !!options.changelog };
+
+        if (options["pipelines-dir"]) {
+          if (format !== "yaml") {
+            console.error("Error: --format is only supported without --pipelines-dir");
+            process.exit(1);
+          }
+          console.log("Proposing updates for Task and its Pipelines...");
+          const combined = await orchestrator.proposeWithConsumersWorkflow(
+            task, changes, options["pipelines-dir"], out, options["pipelines-out"], options["companions-dir"], versioning
+          );
+
+          // Without output paths, print one multi-document stream for review
+          if (!out || !options["pipelines-out"]) {
+            const docs = [`# Source: ${task}\n${combined.taskYaml}`];
+            if (!options["companions-dir"]) docs.push(...combined.companions.map(m => m.yaml));
+            for (const c of combined.consumers) {
+              if (c.updatedYaml) docs.push(`# Source: ${c.path}\n${c.updatedYaml}`);
+            }
+            process.stdout.write(docs.join("---\n"));
+          }
+
+          console.error(`\nNew Task params: ${combined.addedParams.join(", ") || "none"}`);
+          console.error(`Pipelines updated: ${combined.consumers.filter(c => c.changed).length}/${combined.consumers.length}`);
+          combined.notes.forEach(n => console.error(`  - ${n}`));
+          console.error("\nProposal completed successfully");
+          break;
+        }
 
         console.log("Proposing updates...");
-        const result = await orchestrator.proposeUpdateWorkflow(task, changes, out);
+        const result = await orchestrator.proposeUpdateWorkflow(task, changes, out, options["companions-dir"], format, versioning);
         
         if (!out) {
-          process.stdout.write(result);
+          process.stdout.write(format === "diff" && useColor(process.stdout) ? colorizeDiff(result) : result);
         }
         console.error("\nProposal completed successfully");
         break;
@@ -144,29 +622,44 @@ async function main() {
         console.log(`  Requires Review: ${result.requiresReview ? "YES" : "NO"}`);
         console.log(`  Recommendation: ${result.recommendation}`);
         console.log(`  Reasoning: ${result.reasoning}`);
+        console.log("  Impact Areas:");
+        result.impactAreas.forEach((c: ImpactClassification) => console.log(`    ${c.changeId}: ${describeClassification(c)}`));
+        result.notes.forEach((n: string) => console.log(`  Note: ${n}`));
         break;
       }
 
       case "batch": {
-        const { tasksDir, changes, outDir } = options;
+        const { changes } = options;
+        const tasksDir = options["tasks-dir"];
+        const outDir = options["out-dir"];
         if (!tasksDir || !changes || !outDir) {
           console.error("Error: --tasks-dir, --changes, and --out-dir are required");
           process.exit(1);
         }
+        const filter = {
+          include: options.include ? splitGlobList(String(options.include)) : undefined,
+          exclude: options.exclude ? splitGlobList(String(options.exclude)) : undefined
+        };
 
         console.log("Processing batch update...");
-        const result = await orchestrator.batchUpdateWorkflow(tasksDir, changes, outDir);
+        const versioning = { bump: !!options["bump-version"], changelog: !!options.changelog };
+        const result = await orchestrator.batchUpdateWorkflow(tasksDir, changes, outDir, filter, versioning);
         
         console.log("\nBatch Update Results:");
+        console.log(`  Files: ${result.files} (${result.skipped.length} without Tekton documents)`);
         console.log(`  Total: ${result.total}`);
         console.log(`  Successful: ${result.successful}`);
         console.log(`  Failed: ${result.failed}`);
         
         if (options.verbose) {
           console.log("\nDetails:");
-          result.results.forEach((r: any) => {
-            console.log(`  ${r.file}: ${r.success ? "✓" : "✗"} ${r.error || ""}`);
+          result.results.forEach(r => {
+            console.log(`  ${r.file}: ${r.success ? "✓" : "✗"} ${r.error || ""}${r.preserved ? ` (${r.preserved} other document(s) kept as is)` : ""}`);
+            r.documents.forEach(d => {
+              console.log(`    #${d.index} ${d.kind ? `${d.kind}/${d.name || "?"}` : "(unparsable)"}: ${d.success ? "✓" : "✗"} ${d.error || ""}`);
+            });
           });
+          result.skipped.forEach(f => console.log(`  ${f}: skipped (no Tekton documents)`));
         }
         break;
       }
@@ -193,9 +686,43 @@ async function main() {
         break;
       }
 
+      case "monitor": {
+        const { source, tasks } = options;
+        const outDir = options["out-dir"];
+        if (!source || !tasks || !outDir) {
+          console.error("Error: --source, --tasks, and --out-dir are required");
+          process.exit(1);
+        }
+        const interval = options.interval !== undefined ? Number(options.interval) : 60;
+        if (!(interval > 0)) {
+          console.error("Error: --interval must be a positive number of seconds");
+          process.exit(1);
+        }
+        const filter = {
+          include: options.include ? splitGlobList(String(options.include)) : undefined,
+          exclude: options.exclude ? splitGlobList(String(options.exclude)) : undefined
+        };
+        process.on("SIGINT", () => {
+          orchestrator.stop();
+          process.exit(0);
+        });
+
+        console.log(`Monitoring ${source}...`);
+        const result = await orchestrator.monitorWorkflow(String(source), String(tasks), String(outDir), { interval, once: !!options.once, filter });
+
+        console.log("\nMonitor Results:");
+        console.log(`  Polls: ${result.polls}`);
+        console.log(`  Changes: ${result.changes.length}${result.changes.length ? ` (${result.changes.join(", ")})` : ""}`);
+        console.log(`  Updates queued: ${result.queued}`);
+        console.log(`  Written: ${result.written.length}`);
+        result.failed.forEach(f => console.log(`  Failed: ${f.task} (${f.changes.join(", ")}): ${f.error}`));
+        if (result.failed.length > 0) process.exit(1);
+        break;
+      }
+
       case "mcp-server": {
         console.log("Starting MCP server...");
-        await startMCPServer(options["state-dir"]);
+        await startMCPServer(options["state-dir"], options["rules-dir"], targetOption(options), provider, repairAttempts);
         break;
       }
 
@@ -1,16 +1,60 @@
 // Agent Core: Reasoning, planning, and execution engine
-import { AgentState, AgentTask, AgentDecision, AgentMemory } from "./types.js";
+import YAML from "yaml";
+import { AgentState, AgentTask, AgentDecision, AgentMemory, LLMAttempt } from "./types.js";
 import { StateManager } from "./state.js";
+import { ChangeMonitor } from "./monitor.js";
 import { proposeWithLLM } from "../llm/propose.js";
-import { applyDeterministicRules, validateTaskYaml, mergeYAMLs } from "../tekton/updater.js";
-import { JumpstarterChange } from "../types.js";
+import { LLMProvider, describeProvider } from "../llm/providers.js";
+import { EditOpsError } from "../llm/edits.js";
+import { applyDeterministicRules, validateResourceYaml, mergeYAMLs, checkKubernetesManifest, TektonValidationError } from "../tekton/updater.js";
+import { lintTaskYaml, newLintFindings, formatLintFindings, addedParamUsage, ParamUsage, LintError } from "../tekton/lint.js";
+import { detectKind } from "../tekton/kinds.js";
+import { RuleDefinition, loadRules } from "../tekton/rules.js";
+import { generateCompanionManifests } from "../tekton/rbac.js";
+import { describeChanges, ProposalStage } from "../tekton/diff.js";
+import { applyVersionBump, VersionBump } from "../tekton/version.js";
+import { TektonTarget, enforceTarget, loadTarget } from "../tekton/target.js";
+import { classifyChanges } from "../jumpstarter/classify.js";
+import { CompanionManifest, DeterministicRuleResult, ImpactClassification, JumpstarterChange, LintFinding, Proposal, RepairRequest } from "../types.js";
+
+// Risk each impact area adds to the impact score; an inferred area adds it
+// scaled by the classifier's confidence.
+const AREA_RISK: Record<string, number> = { serviceAccount: 0.3, security: 0.4, network: 0.2, rbac: 0.3 };
+
+// Inferred areas no rule acts on (rules only see declared ones) that are
+// security-sensitive need review once the classifier is this sure of them.
+const REVIEW_AREAS = ["security", "rbac", "serviceAccount"];
+const REVIEW_CONFIDENCE = 0.7;
+
+// What a repair request tells the model about a failed proposal; undefined
+// for failures that are not the proposal's fault (provider errors, ...).
+function repairErrors(error: unknown): string[] | undefined {
+  if (error instanceof EditOpsError || error instanceof TektonValidationError) return error.errors.map(e => `${e.path}: ${e.message}`);
+  if (error instanceof LintError) return formatLintFindings(error.findings);
+  return undefined;
+}
 
 export class AgentCore {
   private state: StateManager;
+  private monitor: ChangeMonitor;
   private running: boolean = false;
+  private rules: RuleDefinition[];
+  private target?: TektonTarget;
+  private classifyWithLLM: boolean;
+  private llm?: LLMProvider;
+  private repairAttempts: number;
 
-  constructor(stateDir?: string) {
+  // Without an LLM provider, updates apply deterministic rules only. An LLM
+  // proposal that fails validation is sent back for repair up to
+  // repairAttempts times.
+  constructor(stateDir?: string, rulesDir?: string, target: TektonTarget | undefined = loadTarget(), classifyWithLLM = process.env.TEKTON_CLASSIFY_LLM === "true", llm?: LLMProvider, repairAttempts = Number(process.env.LLM_REPAIR_ATTEMPTS || 2)) {
     this.state = new StateManager(stateDir);
+    this.monitor = new ChangeMonitor(stateDir);
+    this.rules = loadRules(rulesDir);
+    this.target = target;
+    this.classifyWithLLM = classifyWithLLM;
+    this.llm = llm;
+    this.repairAttempts = Number.isInteger(repairAttempts) && repairAttempts >= 0 ? repairAttempts : 2;
   }
 
   async initialize() {
@@ -35,7 +79,7 @@ export class AgentCore {
         const result = await this.execute(decision, task);
         
         // 4. Update memory/state
-        await this.updateState(decision, result);
+        await this.updateState(task, decision, result);
         
         // 5. Check if we should continue
         if (decision.final || result.error) {
@@ -93,7 +137,7 @@ export class AgentCore {
     }
     
     // First, apply deterministic rules
-    const rules = applyDeterministicRules(taskYaml, changes);
+    const rules = applyDeterministicRules(taskYaml, changes, this.rules);
     const hasRuleChanges = rules.some(r => r.changed);
     
     // Check if we've tried this before
@@ -113,10 +157,20 @@ export class AgentCore {
       c.description && c.description.length > 100
     );
     
+    if (needsLLM && !this.llm) {
+      return {
+        action: "apply-rules-only",
+        reasoning: "LLM disabled, applying deterministic rules only",
+        confidence: hasRuleChanges ? 0.8 : 0.5,
+        final: false,
+        metadata: { rules, needsLLM }
+      };
+    }
+    
     return {
       action: needsLLM ? "propose-with-llm" : "apply-rules-only",
       reasoning: needsLLM 
-        ? "Changes are complex, using LLM for sophisticated analysis"
+        ? `Changes are complex, using LLM (${describeProvider(this.llm!)}) for sophisticated analysis`
         : "Simple changes detected, applying deterministic rules",
       confidence: hasRuleChanges ? 0.8 : 0.5,
       final: false,
@@ -126,47 +180,69 @@ export class AgentCore {
 
   private async reasonMonitorChanges(observation: any, task: AgentTask): Promise<AgentDecision> {
     // Check for new changes and decide if action is needed
-    const { changeSource } = task.data;
+    const { changeSource, interval } = task.data;
+    
+    if (!changeSource) {
+      return {
+        action: "skip",
+        reasoning: "Missing required data (changeSource)",
+        confidence: 1.0,
+        final: true
+      };
+    }
     
     return {
       action: "check-changes",
       reasoning: "Monitoring for new Jumpstarter changes",
       confidence: 1.0,
       final: false,
-      metadata: { source: changeSource }
+      metadata: { source: changeSource, interval }
     };
   }
 
   private async reasonAnalyzeImpact(observation: any, task: AgentTask): Promise<AgentDecision> {
     const { changes, taskYaml } = task.data;
     
+    // Changes without impactAreas are classified from their text
+    const { classifications, notes } = await classifyChanges(changes || [], { llm: this.classifyWithLLM ? this.llm : undefined });
+    if (this.classifyWithLLM && !this.llm) notes.push("Impact areas: LLM disabled; using keyword patterns only");
+    
     // Analyze impact of changes on existing task
-    const impactScore = this.calculateImpactScore(changes, taskYaml || "");
+    const impactScore = this.calculateImpactScore(changes, classifications);
+    // Security-sensitive rule edits need a human whatever the score says
+    const reviewRules = taskYaml && changes ? this.reviewRequiredBy(applyDeterministicRules(taskYaml, changes, this.rules)) : [];
+    const reviewAreas = this.inferredReviewAreas(classifications);
+    const highImpact = impactScore > 0.7 || reviewRules.length > 0 || reviewAreas.length > 0;
     
     return {
-      action: impactScore > 0.7 ? "high-impact-review" : "auto-apply",
+      action: highImpact ? "high-impact-review" : "auto-apply",
       reasoning: `Impact score: ${impactScore.toFixed(2)}. ${
-        impactScore > 0.7 
+        reviewRules.length > 0
+          ? `Security-sensitive edits (${reviewRules.join(", ")}) always require review`
+          : reviewAreas.length > 0
+          ? `Inferred security-sensitive impact areas (${reviewAreas.join(", ")}) require review`
+          : impactScore > 0.7 
           ? "High impact detected, requesting review" 
           : "Low impact, safe to auto-apply"
       }`,
       confidence: 0.9,
       final: false,
-      metadata: { impactScore }
+      metadata: { impactScore, reviewRules, reviewAreas, impactAreas: classifications, classificationNotes: notes }
     };
   }
 
-  private calculateImpactScore(changes: JumpstarterChange[] | undefined, taskYaml: string): number {
+  // Declared areas count in full, inferred ones by confidence.
+  private calculateImpactScore(changes: JumpstarterChange[] | undefined, classifications: ImpactClassification[]): number {
     // Simple heuristic for impact analysis
     let score = 0;
     
     if (!changes) return 0;
     
-    changes.forEach(change => {
+    changes.forEach((change, i) => {
+      const c = classifications[i];
       // High impact areas
-      if (change.impactAreas?.includes("serviceAccount")) score += 0.3;
-      if (change.impactAreas?.includes("security")) score += 0.4;
-      if (change.impactAreas?.includes("network")) score += 0.2;
+      for (const area of c?.declared || []) score += AREA_RISK[area] || 0;
+      for (const area of c?.inferred || []) score += (AREA_RISK[area.area] || 0) * area.confidence;
       
       // Complex descriptions
       if (change.description && change.description.length > 200) score += 0.2;
@@ -175,6 +251,13 @@ export class AgentCore {
     return Math.min(score, 1.0);
   }
 
+  // "CHG-1: security 0.90" for each sure, security-sensitive inferred area.
+  private inferredReviewAreas(classifications: ImpactClassification[]): string[] {
+    return classifications.flatMap(c => c.inferred
+      .filter(a => REVIEW_AREAS.includes(a.area) && a.confidence >= REVIEW_CONFIDENCE)
+      .map(a => `${c.changeId}: ${a.area} ${a.confidence.toFixed(2)}`));
+  }
+
   private async execute(decision: AgentDecision, task: AgentTask): Promise<any> {
     console.log(`[Agent] Executing: ${decision.action}`);
     console.log(`[Agent] Reasoning: ${decision.reasoning}`);
@@ -208,24 +291,113 @@ export class AgentCore {
       return { error: "Missing taskYaml or changes" };
     }
     
-    // Apply deterministic rules first
-    const rules = applyDeterministicRules(taskYaml, changes);
+    // The rules-only proposal is checked first, so whatever fails there is
+    // reported as the rules' doing instead of sent to the model for repair.
+    // Past it, every validation, target or lint error of an attempt is one
+    // the LLM's edits introduced.
+    let fallback: any;
+    try {
+      fallback = await this.executeApplyRules(task, decision);
+    } catch (error: any) {
+      throw new Error(`Deterministic rules produced an invalid proposal; LLM not asked: ${error.message}`);
+    }
+
+    const rules = applyDeterministicRules(taskYaml, changes, this.rules);
+    const stages = this.ruleStages(rules);
     const latest = rules.reverse().find(r => r.yaml)?.yaml || taskYaml;
     
-    // Get LLM proposal
-    const proposal = await proposeWithLLM(latest, changes);
-    const merged = mergeYAMLs(proposal.updatedTaskYAML, latest);
+    // Each attempt is remembered; a failed one goes back to the model with its
+    // errors (without a model, there is nothing to repair). A failed call
+    // (a 4xx, retries used up) ends the attempts.
+    const attempts: LLMAttempt[] = [];
+    const maxAttempts = this.llm ? this.repairAttempts + 1 : 1;
+    let repair: RepairRequest | undefined;
+    let callFailed = false;
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let proposal: Proposal | undefined;
+      try {
+        proposal = await proposeWithLLM(latest, changes, this.llm, this.target, repair);
+        const result = this.llmProposalResult(task, rules, stages, latest, proposal);
+        this.recordAttempt(task, attempts, { attempt, errors: [], response: proposal.response });
+        const repaired = attempt > 1 ? [`LLM proposal repaired on attempt ${attempt} of ${maxAttempts}`] : [];
+        return { ...result, llmAttempts: attempts, notes: [...repaired, ...result.notes] };
+      } catch (error: any) {
+        const errors = repairErrors(error);
+        const response = proposal?.response ?? (error instanceof EditOpsError ? error.response : undefined);
+        this.recordAttempt(task, attempts, { attempt, errors: errors || [error.message], response });
+        if (!errors) {
+          callFailed = true;
+          break;
+        }
+        repair = { previous: response || "", errors };
+      }
+    }
+
+    // Nothing valid came back: the rules alone are still a proposal
+    const last = attempts[attempts.length - 1];
+    const failure = callFailed
+      ? `LLM proposal failed on attempt ${last.attempt}`
+      : `LLM proposal failed validation in all ${attempts.length} attempt(s)`;
+    return {
+      ...fallback,
+      llmAttempts: attempts,
+      notes: [`${failure}; using deterministic rules only. Last errors: ${last.errors.join("; ")}`, ...fallback.notes]
+    };
+  }
+
+  private llmProposalResult(task: AgentTask, rules: DeterministicRuleResult[], stages: ProposalStage[], latest: string, proposal: Proposal): any {
+    const { changes, taskYaml } = task.data as { changes: JumpstarterChange[]; taskYaml: string };
+    const merged = mergeYAMLs(taskYaml, latest, proposal.updatedTaskYAML);
     
     // Validate result
-    validateTaskYaml(merged);
+    validateResourceYaml(merged.yaml);
+    const targeted = this.enforceTarget(taskYaml, merged.yaml);
+    const lint = this.lintProposal(taskYaml, targeted.yaml);
+    const paramUsage = this.paramUsage(taskYaml, targeted.yaml);
+    const versioned = this.versionBump(task, targeted.yaml);
+    // Ops neither a rule nor the LLM output accounts for come from conflict resolution
+    const { diff, patch, baseHash } = describeChanges(taskYaml, versioned.yaml, [...stages, { source: "llm", yaml: proposal.updatedTaskYAML }, ...targeted.stages, ...versioned.stages], "merge", task.data.sourcePath);
+    
+    const reviewRules = this.reviewRequiredBy(rules);
+    const companions = this.companionManifests(versioned.yaml, changes);
     
     return {
       success: true,
-      updatedYaml: merged,
-      notes: [...rules.flatMap(r => r.notes), ...proposal.notes]
+      updatedYaml: versioned.yaml,
+      baseHash,
+      diff,
+      patch,
+      companions: companions.manifests,
+      conflicts: merged.conflicts,
+      llmEdits: proposal.ops || [],
+      lint,
+      paramUsage,
+      version: versioned.bump,
+      requiresReview: reviewRules.length > 0,
+      notes: [...this.reviewNotes(reviewRules), ...rules.flatMap(r => r.notes), ...proposal.notes, ...merged.notes, ...targeted.notes, ...this.lintNotes(lint), ...this.paramUsageNotes(paramUsage), ...versioned.notes, ...companions.notes]
     };
   }
 
+  // In agent memory next to the task's own entry, so failed attempts survive
+  // a run that ends up succeeding.
+  private recordAttempt(task: AgentTask, attempts: LLMAttempt[], attempt: LLMAttempt) {
+    attempts.push(attempt);
+    const passed = attempt.errors.length === 0;
+    if (!passed) console.log(`[Agent] LLM attempt ${attempt.attempt} failed: ${attempt.errors.join("; ")}`);
+    this.state.addMemory({
+      timestamp: new Date().toISOString(),
+      decision: {
+        action: "llm-attempt",
+        reasoning: passed ? `LLM attempt ${attempt.attempt} passed validation` : `LLM attempt ${attempt.attempt} failed validation with ${attempt.errors.length} error(s)`,
+        confidence: passed ? 1.0 : 0,
+        final: false,
+        metadata: { taskId: task.id, attempt: attempt.attempt }
+      },
+      result: { errors: attempt.errors, response: attempt.response },
+      success: passed
+    });
+  }
+
   private async executeApplyRules(task: AgentTask, decision: AgentDecision): Promise<any> {
     const { changes, taskYaml } = task.data;
     
@@ -233,24 +405,142 @@ export class AgentCore {
       return { error: "Missing taskYaml or changes" };
     }
     
-    const rules = applyDeterministicRules(taskYaml, changes);
+    const rules = applyDeterministicRules(taskYaml, changes, this.rules);
+    const stages = this.ruleStages(rules);
     const updated = rules.reverse().find(r => r.yaml)?.yaml || taskYaml;
     
-    validateTaskYaml(updated);
+    validateResourceYaml(updated);
+    const targeted = this.enforceTarget(taskYaml, updated);
+    const lint = this.lintProposal(taskYaml, targeted.yaml);
+    const paramUsage = this.paramUsage(taskYaml, targeted.yaml);
+    const versioned = this.versionBump(task, targeted.yaml);
+    const { diff, patch, baseHash } = describeChanges(taskYaml, versioned.yaml, [...stages, ...targeted.stages, ...versioned.stages], "rules", task.data.sourcePath);
+    
+    const reviewRules = this.reviewRequiredBy(rules);
+    const companions = this.companionManifests(versioned.yaml, changes);
     
     return {
       success: true,
-      updatedYaml: updated,
-      notes: rules.flatMap(r => r.notes)
+      updatedYaml: versioned.yaml,
+      baseHash,
+      diff,
+      patch,
+      companions: companions.manifests,
+      lint,
+      paramUsage,
+      version: versioned.bump,
+      requiresReview: reviewRules.length > 0,
+      notes: [...this.reviewNotes(reviewRules), ...rules.flatMap(r => r.notes), ...targeted.notes, ...this.lintNotes(lint), ...this.paramUsageNotes(paramUsage), ...versioned.notes, ...companions.notes]
     };
   }
 
+  // ServiceAccount/RBAC manifests for serviceAccount/rbac changes. One that
+  // fails the bundled Kubernetes schemas (e.g. a malformed rbacRules entry)
+  // is dropped with a note rather than failing the whole proposal, and so is
+  // any binding to a role that was dropped.
+  private companionManifests(updatedYaml: string, changes: JumpstarterChange[]): { manifests: CompanionManifest[]; notes: string[] } {
+    const generated = generateCompanionManifests(YAML.parse(updatedYaml), changes);
+    const manifests: CompanionManifest[] = [];
+    const notes = [...generated.notes];
+    const dropped = new Set<string>();
+    for (const m of generated.manifests) {
+      const roleRef = (m.object as any).roleRef;
+      if (roleRef && dropped.has(`${roleRef.kind}/${roleRef.name}`)) {
+        notes.push(`Dropped ${m.kind}/${m.name}: binds ${roleRef.kind}/${roleRef.name}, which was dropped`);
+        continue;
+      }
+      const issues = checkKubernetesManifest(m.object);
+      if (issues.length > 0) {
+        notes.push(`Dropped ${m.kind}/${m.name}: ${issues.map(i => `${i.path}: ${i.message}`).join("; ")}`);
+        dropped.add(`${m.kind}/${m.name}`);
+        continue;
+      }
+      manifests.push(m);
+    }
+    return { manifests, notes };
+  }
+
+  // Holds the update to the configured Tekton Pipelines release and feature
+  // flags (see tekton/target.ts); throws on a feature the target lacks.
+  private enforceTarget(originalYaml: string, updatedYaml: string): { yaml: string; stages: ProposalStage[]; notes: string[] } {
+    if (!this.target) return { yaml: updatedYaml, stages: [], notes: [] };
+    const { yaml, notes } = enforceTarget(originalYaml, updatedYaml, this.target);
+    return { yaml, stages: yaml === updatedYaml ? [] : [{ source: "tekton-target", yaml }], notes };
+  }
+
+  // With task.data.bumpVersion, the version label and change-ID annotation
+  // follow the update (see tekton/version.ts). Runs are not versioned.
+  private versionBump(task: AgentTask, updatedYaml: string): { yaml: string; stages: ProposalStage[]; bump?: VersionBump; notes: string[] } {
+    const { taskYaml, changes } = task.data;
+    const kind = detectKind(YAML.parse(updatedYaml));
+    if (!task.data.bumpVersion || !taskYaml || !changes || kind === "TaskRun" || kind === "PipelineRun") {
+      return { yaml: updatedYaml, stages: [], notes: [] };
+    }
+    const { yaml, bump, notes } = applyVersionBump(taskYaml, updatedYaml, changes);
+    return { yaml, stages: yaml === updatedYaml ? [] : [{ source: "version-bump", yaml }], bump, notes };
+  }
+
+  // The resource after each rule that changed it, in the order they ran.
+  private ruleStages(rules: DeterministicRuleResult[]): ProposalStage[] {
+    return rules.filter(r => r.changed && r.yaml).map(r => ({ source: r.name, yaml: r.yaml! }));
+  }
+
+  private reviewRequiredBy(rules: DeterministicRuleResult[]): string[] {
+    return rules.filter(r => r.changed && r.requiresReview).map(r => r.name);
+  }
+
+  private reviewNotes(reviewRules: string[]): string[] {
+    return reviewRules.length > 0 ? [`Review required: security-sensitive edits by ${reviewRules.join(", ")}`] : [];
+  }
+
+  // Reject proposals that introduce broken references; pre-existing problems
+  // in the input Task are reported but do not block the update. The linter
+  // understands Task substitutions only, so other kinds are passed through.
+  private lintProposal(originalYaml: string, updatedYaml: string): LintFinding[] {
+    if (detectKind(YAML.parse(updatedYaml)) !== "Task") return [];
+    const findings = lintTaskYaml(updatedYaml);
+    const introduced = newLintFindings(lintTaskYaml(originalYaml), findings)
+      .filter(f => f.severity === "error");
+    if (introduced.length > 0) throw new LintError(introduced);
+    return findings;
+  }
+
+  private lintNotes(findings: LintFinding[]): string[] {
+    return formatLintFindings(findings.filter(f => f.severity !== "info")).map(l => `Lint: ${l}`);
+  }
+
+  // Confirms each param the proposal added is consumed somewhere; an unused
+  // one is already reported by the linter's unused-param warning.
+  private paramUsage(originalYaml: string, updatedYaml: string): ParamUsage[] {
+    const updated = YAML.parse(updatedYaml);
+    if (detectKind(updated) !== "Task") return [];
+    return addedParamUsage(YAML.parse(originalYaml), updated);
+  }
+
+  private paramUsageNotes(usage: ParamUsage[]): string[] {
+    return usage.filter(u => u.referencedAt.length > 0).map(u => `Param ${u.name} is used at ${u.referencedAt.join(", ")}`);
+  }
+
+  // One poll of the change feed; `interval` (seconds) skips the poll when the
+  // source was polled more recently than that. Only changes not yet
+  // acknowledged are returned (see monitor.ts).
   private async executeCheckChanges(task: AgentTask, decision: AgentDecision): Promise<any> {
-    // Placeholder for change monitoring
+    const { source, interval } = decision.metadata || {};
+    const poll = await this.monitor.poll(source, Number(interval) || 0);
+    const message = poll.nextPollAt
+      ? `Polled ${source} at ${poll.polledAt}; next poll due at ${poll.nextPollAt}`
+      : poll.changes.length > 0
+      ? `${poll.changes.length} change(s) from ${source}${poll.retried ? ` (${poll.retried} not yet acknowledged)` : ""}: ${poll.changes.map(c => c.id).join(", ")}`
+      : "No new changes detected";
     return {
       success: true,
-      changesFound: [],
-      message: "No new changes detected"
+      changesFound: poll.changes,
+      retried: poll.retried,
+      repeated: poll.repeated,
+      cursor: poll.cursor,
+      polledAt: poll.polledAt,
+      nextPollAt: poll.nextPollAt,
+      message
     };
   }
 
@@ -271,7 +561,7 @@ export class AgentCore {
     return this.executeProposeWithLLM(task, decision);
   }
 
-  private async updateState(decision: AgentDecision, result: any): Promise<void> {
+  private async updateState(task: AgentTask, decision: AgentDecision, result: any): Promise<void> {
     const memory: AgentMemory = {
       timestamp: new Date().toISOString(),
       decision,
@@ -280,6 +570,7 @@ export class AgentCore {
     };
     
     this.state.addMemory(memory);
+    this.state.addTaskHistory(task.id, memory);
     await this.state.save();
   }
 
@@ -297,5 +588,10 @@ export class AgentCore {
   getState(): AgentState {
     return this.state.getState();
   }
+
+  // Marks changes of a monitor-changes poll as acted on (see monitor.ts).
+  acknowledgeChanges(source: string, ids: string[]): void {
+    this.monitor.acknowledge(source, ids);
+  }
 }
 
@@ -3,5 +3,6 @@ export { AgentCore } from "./core.js";
 export { AgentOrchestrator } from "./orchestrator.js";
 export { AgentMCPServer, startMCPServer } from "./mcp-server.js";
 export { StateManager } from "./state.js";
+export { ChangeMonitor } from "./monitor.js";
 export * from "./types.js";
 
@@ -1,7 +1,12 @@
 // Enhanced MCP Server with multiple tools for agent interaction
 import { AgentCore } from "./core.js";
+import { AgentOrchestrator } from "./orchestrator.js";
 import { AgentTask } from "./types.js";
-import { loadChangesFromFile } from "../jumpstarter/client.js";
+import { TektonTarget } from "../tekton/target.js";
+import { LLMProvider } from "../llm/providers.js";
+import { JumpstarterChange } from "../types.js";
+import { loadChanges } from "../jumpstarter/client.js";
+import { ChangeValidationError, normalizeChanges, parseChanges } from "../jumpstarter/changes.js";
 import fs from "node:fs";
 
 type MCPRequest = { 
@@ -13,14 +18,21 @@ type MCPRequest = {
 type MCPResponse = { 
   id: number | string; 
   result?: any; 
-  error?: { code: number; message: string } 
+  error?: { code: number; message: string; data?: unknown } 
 };
 
+// The `changes` argument: change objects, or the text of a JSON/YAML changes file.
+function changesArgument(changes: unknown, source = "the changes argument"): JumpstarterChange[] {
+  return typeof changes === "string" ? parseChanges(changes, source) : normalizeChanges(changes, source);
+}
+
 export class AgentMCPServer {
   private agent: AgentCore;
+  private orchestrator: AgentOrchestrator;
 
-  constructor(stateDir?: string) {
-    this.agent = new AgentCore(stateDir);
+  constructor(stateDir?: string, rulesDir?: string, target?: TektonTarget, llm?: LLMProvider, repairAttempts?: number) {
+    this.agent = new AgentCore(stateDir, rulesDir, target, undefined, llm, repairAttempts);
+    this.orchestrator = new AgentOrchestrator({ stateDir, rulesDir, target }, llm, this.agent);
   }
 
   async initialize() {
@@ -65,6 +77,10 @@ export class AgentMCPServer {
       }
     } catch (e: any) {
       console.error("[MCP Server] Error:", e);
+      // Invalid changes are bad params; `data` carries the path-addressed issues
+      if (e instanceof ChangeValidationError) {
+        return { id: req.id, error: { code: -32602, message: e.message, data: e.errors } };
+      }
       return { 
         id: req.id, 
         error: { code: -32000, message: e.message } 
@@ -97,7 +113,7 @@ export class AgentMCPServer {
         tools: [
           {
             name: "propose_tekton_update",
-            description: "Propose updates to a Tekton Task based on Jumpstarter changes. Returns updated YAML with reasoning.",
+            description: "Propose updates to a Tekton Task based on Jumpstarter changes. Returns updated YAML, a unified diff and a JSON Patch (ops tagged with their rule) with reasoning.",
             inputSchema: {
               type: "object",
               properties: {
@@ -106,12 +122,12 @@ export class AgentMCPServer {
                   description: "Current Tekton Task YAML content" 
                 },
                 changes: { 
-                  type: "array", 
-                  description: "Array of Jumpstarter change objects" 
+                  type: ["array", "object", "string"], 
+                  description: "Jumpstarter change objects (see the jumpstarter-change JSON Schema), or a JSON/YAML changes file's content" 
                 },
                 changePath: { 
                   type: "string", 
-                  description: "Path to JSON file containing changes (alternative to changes array)" 
+                  description: "Path to a JSON or YAML changes file, git:<repo>[#<from>..<to>] for a Jumpstarter checkout, or exporter:<old>,<new> for exporter configs (alternative to changes array)" 
                 }
               },
               required: ["taskYaml"]
@@ -119,29 +135,42 @@ export class AgentMCPServer {
           },
           {
             name: "analyze_change_impact",
-            description: "Analyze the impact of proposed changes on a Tekton Task. Returns impact score and recommendations.",
+            description: "Analyze the impact of proposed changes on a Tekton Task. Returns impact score and recommendations, and each change's declared impact areas or, for changes that declare none, the areas inferred from its text with their confidence.",
             inputSchema: {
               type: "object",
               properties: {
                 taskYaml: { type: "string" },
-                changes: { type: "array" }
+                changes: { type: ["array", "object", "string"] }
               },
               required: ["taskYaml", "changes"]
             }
           },
           {
             name: "monitor_jumpstarter_changes",
-            description: "Monitor for new Jumpstarter changes and decide if updates are needed.",
+            description: "Poll a Jumpstarter change feed once. With tasks and outDir, the changes found are applied to those Tekton resources and written to outDir, as `agent monitor --once` does, and acknowledged once every resource is written. Without them, the changes are returned and stay pending, coming back with every call, until a later call acknowledges their ids. The feed's cursor, pending changes and acknowledged ids are kept in the agent's state directory.",
             inputSchema: {
               type: "object",
               properties: {
                 changeSource: { 
                   type: "string", 
-                  description: "Source to monitor (file path, git repo, or API endpoint)" 
+                  description: "Source to monitor: a changes file, a directory of changes files, git:<repo>[#<from>..<to>], or an http(s):// JSON feed" 
                 },
                 interval: { 
                   type: "number", 
-                  description: "Polling interval in seconds" 
+                  description: "Polling interval in seconds: a call sooner than this after the last poll of the source does not poll, and returns nextPollAt (without tasks)" 
+                },
+                tasks: {
+                  type: "string",
+                  description: "A Tekton resource file, or a directory of them, to apply the changes to"
+                },
+                outDir: {
+                  type: "string",
+                  description: "Where the updated resources are written, keeping their paths relative to tasks"
+                },
+                acknowledge: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "Ids of changes returned by earlier calls that the client has acted on; they are not handed out again"
                 }
               },
               required: ["changeSource"]
@@ -204,10 +233,11 @@ export class AgentMCPServer {
   private async handleProposeUpdate(req: MCPRequest): Promise<MCPResponse> {
     const { taskYaml, changes, changePath } = req.params;
     
-    // Load changes from file if path provided
+    // Load changes from a file or git checkout if provided; either way they
+    // are validated against the change schema
     const changeList = changePath 
-      ? await loadChangesFromFile(changePath)
-      : changes;
+      ? await loadChanges(changePath)
+      : changes !== undefined ? changesArgument(changes) : [];
 
     if (!changeList || changeList.length === 0) {
       return {
@@ -230,7 +260,14 @@ export class AgentMCPServer {
       id: req.id,
       result: {
         updatedYaml: lastMemory?.result?.updatedYaml || taskYaml,
+        baseHash: lastMemory?.result?.baseHash,
+        diff: lastMemory?.result?.diff || "",
+        patch: lastMemory?.result?.patch || [],
+        companions: (lastMemory?.result?.companions || []).map((m: any) => ({ kind: m.kind, name: m.name, yaml: m.yaml })),
+        llmEdits: lastMemory?.result?.llmEdits || [],
+        llmAttempts: lastMemory?.result?.llmAttempts || [],
         notes: lastMemory?.result?.notes || [],
+        requiresReview: lastMemory?.result?.requiresReview || false,
         reasoning: lastMemory?.decision?.reasoning,
         confidence: lastMemory?.decision?.confidence,
         success: lastMemory?.success || false
@@ -244,7 +281,7 @@ export class AgentMCPServer {
     const task: AgentTask = {
       id: `analyze-${Date.now()}`,
       type: "analyze-impact",
-      data: { taskYaml, changes }
+      data: { taskYaml, changes: changesArgument(changes) }
     };
 
     await this.agent.run(task);
@@ -258,13 +295,43 @@ export class AgentMCPServer {
         requiresReview: lastMemory?.result?.requiresReview || false,
         reasoning: lastMemory?.decision?.reasoning,
         recommendation: lastMemory?.decision?.action,
+        impactAreas: lastMemory?.decision?.metadata?.impactAreas || [],
         success: lastMemory?.success || false
       }
     };
   }
 
   private async handleMonitorChanges(req: MCPRequest): Promise<MCPResponse> {
-    const { changeSource, interval } = req.params;
+    const { changeSource, interval, tasks, outDir, acknowledge } = req.params || {};
+
+    if (!changeSource) {
+      return {
+        id: req.id,
+        error: { code: -32602, message: "changeSource is required" }
+      };
+    }
+    if (!tasks !== !outDir) {
+      return {
+        id: req.id,
+        error: { code: -32602, message: "tasks and outDir go together" }
+      };
+    }
+    if (acknowledge !== undefined && !(Array.isArray(acknowledge) && acknowledge.every((id: unknown) => typeof id === "string"))) {
+      return {
+        id: req.id,
+        error: { code: -32602, message: "acknowledge must be an array of change ids" }
+      };
+    }
+    if (acknowledge?.length) this.agent.acknowledgeChanges(changeSource, acknowledge);
+
+    // The same run as `agent monitor --once`, which acknowledges what it wrote
+    if (tasks) {
+      const result = await this.orchestrator.monitorWorkflow(changeSource, tasks, outDir, { once: true });
+      return {
+        id: req.id,
+        result: { ...result, success: result.failed.length === 0 }
+      };
+    }
 
     const task: AgentTask = {
       id: `monitor-${Date.now()}`,
@@ -275,12 +342,18 @@ export class AgentMCPServer {
     await this.agent.run(task);
     const state = this.agent.getState();
     const lastMemory = state.memories[state.memories.length - 1];
+    // Pending until the client acknowledges them, so a client that fails to
+    // act on a change gets it again
+    const changesFound: JumpstarterChange[] = lastMemory?.result?.changesFound || [];
 
     return {
       id: req.id,
       result: {
-        changesFound: lastMemory?.result?.changesFound || [],
-        message: lastMemory?.result?.message || "Monitoring complete",
+        changesFound,
+        cursor: lastMemory?.result?.cursor,
+        polledAt: lastMemory?.result?.polledAt,
+        nextPollAt: lastMemory?.result?.nextPollAt,
+        message: lastMemory?.result?.message || lastMemory?.result?.error || "Monitoring complete",
         success: lastMemory?.success || false
       }
     };
@@ -313,13 +386,12 @@ export class AgentMCPServer {
 
     const results = [];
     for (const taskData of tasks) {
-      const task: AgentTask = {
-        id: `batch-${Date.now()}-${results.length}`,
-        type: "update-task",
-        data: taskData
-      };
-
       try {
+        const task: AgentTask = {
+          id: `batch-${Date.now()}-${results.length}`,
+          type: "update-task",
+          data: { ...taskData, changes: changesArgument(taskData.changes, `tasks[${results.length}].changes`) }
+        };
         await this.agent.run(task);
         const state = this.agent.getState();
         const lastMemory = state.memories[state.memories.length - 1];
@@ -352,8 +424,8 @@ export class AgentMCPServer {
 }
 
 // Main entry point for MCP server
-export async function startMCPServer(stateDir?: string) {
-  const server = new AgentMCPServer(stateDir);
+export async function startMCPServer(stateDir?: string, rulesDir?: string, target?: TektonTarget, llm?: LLMProvider, repairAttempts?: number) {
+  const server = new AgentMCPServer(stateDir, rulesDir, target, llm, repairAttempts);
   await server.initialize();
 
 let buffer = "";
@@ -0,0 +1,108 @@
+// Change Monitor: polls change feeds (see jumpstarter/feed.ts) and remembers,
+// per source, the cursor to resume from, the changes handed out but not yet
+// acknowledged and a ledger of the change ids acknowledged, in
+// <stateDir>/monitor.json.
+import fs from "node:fs";
+import path from "node:path";
+import { JumpstarterChange } from "../types.js";
+import { FeedKind, pollChangeFeed } from "../jumpstarter/feed.js";
+
+// Oldest ids are forgotten past this; feeds only ever repeat recent changes.
+const MAX_SEEN = 10000;
+
+export interface MonitorSourceState {
+  kind: FeedKind;
+  cursor?: string;
+  seen: string[]; // acknowledged change ids, oldest first
+  pending?: JumpstarterChange[]; // handed out, not acknowledged; the feed is past them
+  lastPolledAt?: string;
+}
+
+export interface MonitorPoll {
+  source: string;
+  kind: FeedKind;
+  changes: JumpstarterChange[]; // pending from earlier polls, then new ones in feed order
+  retried: number; // of those, changes earlier polls handed out
+  repeated: number; // changes the ledger already had
+  cursor?: string;
+  polledAt: string;
+  nextPollAt?: string; // set when the poll was skipped for being too soon
+}
+
+export class ChangeMonitor {
+  private file: string;
+  private sources: Record<string, MonitorSourceState> = {};
+
+  constructor(stateDir?: string) {
+    const dir = stateDir || path.join(process.cwd(), ".agent-state");
+    this.file = path.join(dir, "monitor.json");
+  }
+
+  load(): void {
+    if (!fs.existsSync(this.file)) return;
+    try {
+      this.sources = JSON.parse(fs.readFileSync(this.file, "utf8")).sources || {};
+    } catch (error) {
+      console.error("[Monitor] Error loading monitor state:", error);
+    }
+  }
+
+  save(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify({ sources: this.sources }, null, 2), "utf8");
+  }
+
+  getSource(source: string): MonitorSourceState | undefined {
+    return this.sources[source];
+  }
+
+  // Polls the source unless it was polled less than minIntervalSeconds ago.
+  // The cursor moves on, but the changes stay pending, and come back with
+  // every poll, until acknowledge() records them in the ledger; so a change
+  // that could not be acted on is not lost.
+  async poll(source: string, minIntervalSeconds = 0): Promise<MonitorPoll> {
+    this.load();
+    const state = this.sources[source];
+    const now = new Date();
+    if (state?.lastPolledAt && minIntervalSeconds > 0) {
+      const next = new Date(Date.parse(state.lastPolledAt) + minIntervalSeconds * 1000);
+      if (next > now) {
+        return { source, kind: state.kind, changes: [], retried: 0, repeated: 0, cursor: state.cursor, polledAt: state.lastPolledAt, nextPollAt: next.toISOString() };
+      }
+    }
+
+    const feed = await pollChangeFeed(source, state?.cursor);
+    const seen = new Set(state?.seen || []);
+    const pending = state?.pending || [];
+    const known = new Set(pending.map(c => c.id));
+    const fresh: JumpstarterChange[] = [];
+    let repeated = 0;
+    for (const change of feed.changes) {
+      if (seen.has(change.id)) repeated++;
+      else if (!known.has(change.id)) {
+        known.add(change.id);
+        fresh.push(change);
+      }
+    }
+    const changes = [...pending, ...fresh];
+    this.sources[source] = { kind: feed.kind, cursor: feed.cursor, seen: state?.seen || [], pending: changes, lastPolledAt: now.toISOString() };
+    this.save();
+
+    console.log(`[Monitor] Polled ${source} (${feed.kind}): ${fresh.length} new, ${pending.length} pending, ${repeated} already seen`);
+    return { source, kind: feed.kind, changes, retried: pending.length, repeated, cursor: feed.cursor, polledAt: now.toISOString() };
+  }
+
+  // Records changes as acted on: they leave the pending list for the ledger
+  // and no poll returns them again.
+  acknowledge(source: string, ids: string[]): void {
+    this.load();
+    const state = this.sources[source];
+    if (!state || ids.length === 0) return;
+    const done = new Set(ids);
+    const seen = new Set(state.seen);
+    ids.forEach(id => seen.add(id));
+    state.seen = [...seen].slice(-MAX_SEEN);
+    state.pending = (state.pending || []).filter(c => !done.has(c.id));
+    this.save();
+  }
+}
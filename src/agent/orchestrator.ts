@@ -1,7 +1,17 @@
 // Agent Orchestrator: Handles planning, task scheduling, and coordination
 import { AgentCore } from "./core.js";
-import { AgentTask, AgentTaskType, AgentConfig } from "./types.js";
-import { loadChangesFromFile } from "../jumpstarter/client.js";
+import { AgentTask, AgentTaskType, AgentConfig, BatchDocumentResult, BatchFileResult, BatchResult, CombinedProposal, ConsumerProposal, MonitorOptions, MonitorResult, VersioningOptions } from "./types.js";
+import { loadChanges } from "../jumpstarter/client.js";
+import { LLMProvider, enabledProvider } from "../llm/providers.js";
+import { addedParams, findPipelineConsumers, propagateParamsToPipeline } from "../tekton/propagate.js";
+import { validateResourceYaml } from "../tekton/updater.js";
+import { companionFileName, withCompanionDocuments } from "../tekton/rbac.js";
+import { OutputFormat, renderProposal, unifiedDiff } from "../tekton/diff.js";
+import { FileFilter, findYamlFiles, joinYamlDocuments, splitYamlDocuments } from "../tekton/files.js";
+import { detectKind } from "../tekton/kinds.js";
+import { appendChangelog, changelogEntry, VersionBump } from "../tekton/version.js";
+import { CompanionManifest, JumpstarterChange } from "../types.js";
+import YAML from "yaml";
 import fs from "node:fs";
 import path from "node:path";
 
@@ -11,15 +21,23 @@ export class AgentOrchestrator {
   private taskQueue: AgentTask[] = [];
   private running: boolean = false;
 
-  constructor(config?: AgentConfig) {
+  // `llm` is a provider the caller already resolved; without one, it comes
+  // from config.enableLLM and config.llm. With `agent`, the workflows run on
+  // that AgentCore (the MCP server's), so both keep one memory.
+  constructor(config?: AgentConfig, llm?: LLMProvider, agent?: AgentCore) {
     this.config = {
       maxRetries: 3,
       autoApplyThreshold: 0.7,
       maxMemories: 100,
-      enableLLM: !!process.env.OPENAI_API_KEY,
       ...config
     };
-    this.agent = new AgentCore(this.config.stateDir);
+    if (agent) {
+      this.agent = agent;
+      return;
+    }
+    llm ??= enabledProvider(this.config.enableLLM, this.config.llm);
+    this.config.enableLLM = llm !== undefined;
+    this.agent = new AgentCore(this.config.stateDir, this.config.rulesDir, this.config.target, this.config.classifyWithLLM, llm, this.config.llmRepairAttempts);
   }
 
   async initialize() {
@@ -64,18 +82,28 @@ export class AgentOrchestrator {
 
   // High-level workflows
 
-  async proposeUpdateWorkflow(taskYamlPath: string, changesPath: string, outputPath?: string): Promise<string> {
+  // Companion ServiceAccount/RBAC manifests go to companionsDir as one file
+  // each; without it they follow the resource as extra YAML documents (or
+  // new-file hunks in the diff). Returns, and writes, the chosen format.
+  async proposeUpdateWorkflow(
+    taskYamlPath: string,
+    changesPath: string,
+    outputPath?: string,
+    companionsDir?: string,
+    format: OutputFormat = "yaml",
+    versioning: VersioningOptions = {}
+  ): Promise<string> {
     console.log("[Orchestrator] Starting propose-update workflow");
     
     // Load inputs
     const taskYaml = fs.readFileSync(path.resolve(taskYamlPath), "utf8");
-    const changes = await loadChangesFromFile(changesPath);
+    const changes = await loadChanges(changesPath);
 
     // Create task
     const task: AgentTask = {
       id: `workflow-propose-${Date.now()}`,
       type: "update-task",
-      data: { taskYaml, changes, outputPath }
+      data: { taskYaml, changes, outputPath, sourcePath: taskYamlPath, bumpVersion: versioning.bump || versioning.changelog }
     };
 
     // Execute
@@ -87,24 +115,122 @@ export class AgentOrchestrator {
       throw new Error("Failed to propose update: " + lastMemory?.result?.error);
     }
 
-    const updatedYaml = lastMemory.result.updatedYaml;
+    const result = lastMemory.result;
+    const companions: CompanionManifest[] = result.companions || [];
+    let updatedYaml: string = result.updatedYaml;
+    let diff: string = result.diff || "";
+    if (companionsDir) {
+      this.writeCompanions(companions, companionsDir);
+    } else {
+      updatedYaml = withCompanionDocuments(updatedYaml, companions);
+      diff += companions.map(m => unifiedDiff("", m.yaml, "/dev/null", `b/${companionFileName(m)}`)).join("");
+    }
+
+    // yaml carries the companions as documents; json lists them separately
+    const output = format === "yaml" ? updatedYaml : renderProposal(format, {
+      updatedYaml: result.updatedYaml,
+      baseHash: result.baseHash,
+      diff,
+      patch: result.patch || [],
+      companions: companions.map(m => ({ kind: m.kind, name: m.name, yaml: m.yaml })),
+      conflicts: result.conflicts || [],
+      llmEdits: result.llmEdits || [],
+      llmAttempts: result.llmAttempts || [],
+      version: result.version,
+      requiresReview: result.requiresReview || false,
+      notes: result.notes || []
+    });
 
     // Write output if path provided
     if (outputPath) {
       const fullPath = path.resolve(outputPath);
       fs.mkdirSync(path.dirname(fullPath), { recursive: true });
-      fs.writeFileSync(fullPath, updatedYaml, "utf8");
-      console.log(`[Orchestrator] Wrote updated YAML to ${outputPath}`);
+      fs.writeFileSync(fullPath, output, "utf8");
+      console.log(`[Orchestrator] Wrote updated ${format === "yaml" ? "YAML" : format} to ${outputPath}`);
+      if (versioning.changelog && format === "yaml") this.writeChangelog(result, changes, fullPath);
+    } else if (versioning.changelog) {
+      console.log("[Orchestrator] CHANGELOG not written: it goes next to the written resource, and there is no output path");
+    }
+
+    return output;
+  }
+
+  // Updates the Task, then wires any params it gained into every Pipeline under
+  // pipelinesDir that references it, returning one proposal for all of them.
+  async proposeWithConsumersWorkflow(
+    taskYamlPath: string,
+    changesPath: string,
+    pipelinesDir: string,
+    outputPath?: string,
+    pipelinesOutDir?: string,
+    companionsDir?: string,
+    versioning: VersioningOptions = {}
+  ): Promise<CombinedProposal> {
+    console.log("[Orchestrator] Starting propose-with-consumers workflow");
+
+    const originalYaml = fs.readFileSync(path.resolve(taskYamlPath), "utf8");
+    await this.proposeUpdateWorkflow(taskYamlPath, changesPath, outputPath, companionsDir, "yaml", versioning);
+    // The Task alone, without companion documents
+    const state = this.agent.getState();
+    const taskYaml: string = state.memories[state.memories.length - 1].result.updatedYaml;
+    const companions: CompanionManifest[] = state.memories[state.memories.length - 1].result.companions || [];
+    const taskNotes: string[] = state.memories[state.memories.length - 1]?.result?.notes || [];
+
+    const taskName = YAML.parse(taskYaml)?.metadata?.name;
+    const newParams = addedParams(originalYaml, taskYaml);
+    const consumers: ConsumerProposal[] = [];
+
+    if (newParams.length > 0) {
+      const found = findPipelineConsumers(pipelinesDir, taskName);
+      console.log(`[Orchestrator] Found ${found.length} Pipeline(s) referencing Task ${taskName}`);
+
+      for (const consumer of found) {
+        const result = propagateParamsToPipeline(consumer.yaml, taskName, newParams);
+        const proposal: ConsumerProposal = {
+          path: consumer.path,
+          pipelineName: consumer.pipelineName,
+          pipelineTasks: consumer.pipelineTasks,
+          changed: result.changed,
+          notes: result.notes
+        };
+
+        if (result.yaml) {
+          try {
+            validateResourceYaml(result.yaml);
+            proposal.updatedYaml = result.yaml;
+          } catch (error: any) {
+            proposal.changed = false;
+            proposal.notes.push(`Skipped: updated Pipeline failed validation: ${error.message}`);
+          }
+        }
+
+        if (proposal.updatedYaml && pipelinesOutDir) {
+          const outFile = path.join(pipelinesOutDir, path.relative(pipelinesDir, consumer.path));
+          fs.mkdirSync(path.dirname(outFile), { recursive: true });
+          fs.writeFileSync(outFile, proposal.updatedYaml, "utf8");
+          proposal.outputPath = outFile;
+          console.log(`[Orchestrator] Wrote updated Pipeline to ${outFile}`);
+        }
+
+        consumers.push(proposal);
+      }
     }
 
-    return updatedYaml;
+    return {
+      taskName,
+      taskYaml,
+      companions,
+      addedParams: newParams.map((p: any) => p.name),
+      consumers,
+      notes: [...taskNotes, ...consumers.flatMap(c => c.notes)]
+    };
   }
 
   async analyzeImpactWorkflow(taskYamlPath: string, changesPath: string): Promise<any> {
     console.log("[Orchestrator] Starting analyze-impact workflow");
     
     const taskYaml = fs.readFileSync(path.resolve(taskYamlPath), "utf8");
-    const changes = await loadChangesFromFile(changesPath);
+    const changes = await loadChanges(changesPath);
 
     const task: AgentTask = {
       id: `workflow-analyze-${Date.now()}`,
@@ -120,80 +246,139 @@ export class AgentOrchestrator {
       impactScore: lastMemory?.decision?.metadata?.impactScore || 0,
       requiresReview: lastMemory?.result?.requiresReview || false,
       reasoning: lastMemory?.decision?.reasoning,
-      recommendation: lastMemory?.decision?.action
+      recommendation: lastMemory?.decision?.action,
+      // Declared and inferred areas per change (see jumpstarter/classify.ts)
+      impactAreas: lastMemory?.decision?.metadata?.impactAreas || [],
+      notes: lastMemory?.decision?.metadata?.classificationNotes || []
     };
   }
 
-  async batchUpdateWorkflow(tasksDir: string, changesPath: string, outputDir: string): Promise<any> {
+  // Walks tasksDir recursively (include/exclude globs relative to it) and
+  // updates each Tekton document of each file on its own. Files are written to
+  // the same relative path under outputDir, with every other document (and
+  // any Tekton document that failed) exactly as it was.
+  async batchUpdateWorkflow(tasksDir: string, changesPath: string, outputDir: string, filter: FileFilter = {}, versioning: VersioningOptions = {}): Promise<BatchResult> {
     console.log("[Orchestrator] Starting batch-update workflow");
-    
-    // Find all YAML files in tasks directory
-    const taskFiles = fs.readdirSync(tasksDir)
-      .filter((f: string) => f.endsWith('.yaml') || f.endsWith('.yml'))
-      .map((f: string) => path.join(tasksDir, f));
 
-    if (taskFiles.length === 0) {
+    // An output directory inside the tree must not be read back on the next run
+    const outputRel = path.relative(path.resolve(tasksDir), path.resolve(outputDir));
+    const inside = outputRel !== "" && !outputRel.startsWith("..") && !path.isAbsolute(outputRel);
+    const files = findYamlFiles(tasksDir, filter, inside ? [outputDir] : []);
+
+    if (files.length === 0) {
       throw new Error(`No YAML files found in ${tasksDir}`);
     }
 
-    console.log(`[Orchestrator] Found ${taskFiles.length} task files`);
+    console.log(`[Orchestrator] Found ${files.length} YAML files`);
+
+    const changes = await loadChanges(changesPath);
+    const results: BatchFileResult[] = [];
+    const skipped: string[] = [];
+    const companionsDir = path.join(outputDir, "companions");
+
+    for (const file of files) {
+      const rel = path.relative(tasksDir, file);
+      const docs = splitYamlDocuments(fs.readFileSync(file, "utf8"));
+      const documents: BatchDocumentResult[] = [];
+      const bumped: any[] = [];
+      let preserved = 0;
+
+      for (const doc of docs) {
+        let obj: any;
+        try {
+          obj = YAML.parse(doc.text);
+        } catch (error: any) {
+          documents.push({ index: doc.index, success: false, error: `Invalid YAML: ${error.message}` });
+          continue;
+        }
+        const kind = detectKind(obj);
+        if (!kind) {
+          if (obj !== null && obj !== undefined) preserved++;
+          continue;
+        }
 
-    const changes = await loadChangesFromFile(changesPath);
-    const results = [];
+        console.log(`[Orchestrator] Processing ${rel}#${doc.index} (${kind} ${obj.metadata?.name || ""})`);
+        const result: BatchDocumentResult = { index: doc.index, kind, name: obj.metadata?.name, success: false };
+        documents.push(result);
+        const task: AgentTask = {
+          id: `batch-${Date.now()}-${rel}#${doc.index}`,
+          type: "update-task",
+          data: { taskYaml: doc.text, changes, sourcePath: rel, bumpVersion: versioning.bump || versioning.changelog }
+        };
+
+        try {
+          await this.agent.run(task);
+          const state = this.agent.getState();
+          const lastMemory = state.memories[state.memories.length - 1];
+
+          if (lastMemory?.success && lastMemory?.result?.updatedYaml) {
+            const updated: string = lastMemory.result.updatedYaml;
+            doc.text = updated.endsWith("\n") || !doc.text.endsWith("\n") ? updated : updated + "\n";
+            result.success = true;
+            // Tasks sharing a service account produce the same files; the last write wins
+            result.companionFiles = this.writeCompanions(lastMemory.result.companions || [], companionsDir);
+            result.notes = lastMemory.result.notes;
+            if (versioning.changelog) bumped.push(lastMemory.result);
+          } else {
+            result.error = lastMemory?.result?.error || "Unknown error";
+          }
+        } catch (error: any) {
+          result.error = error.message;
+        }
+      }
 
-    // Process each task
-    for (const taskFile of taskFiles) {
-      const taskYaml = fs.readFileSync(taskFile, "utf8");
-      const task: AgentTask = {
-        id: `batch-${Date.now()}-${path.basename(taskFile)}`,
-        type: "update-task",
-        data: { taskYaml, changes }
-      };
+      if (documents.length === 0) {
+        skipped.push(rel);
+        continue;
+      }
 
+      const outputFile = path.join(outputDir, rel);
       try {
-        await this.agent.run(task);
-        const state = this.agent.getState();
-        const lastMemory = state.memories[state.memories.length - 1];
-
-        if (lastMemory?.success && lastMemory?.result?.updatedYaml) {
-          // Write output
-          const outputFile = path.join(outputDir, path.basename(taskFile));
-          fs.mkdirSync(outputDir, { recursive: true });
-          fs.writeFileSync(outputFile, lastMemory.result.updatedYaml, "utf8");
-          
-          results.push({
-            file: path.basename(taskFile),
-            success: true,
-            outputFile,
-            notes: lastMemory.result.notes
-          });
-        } else {
-          results.push({
-            file: path.basename(taskFile),
-            success: false,
-            error: lastMemory?.result?.error || "Unknown error"
-          });
-        }
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+        fs.writeFileSync(outputFile, joinYamlDocuments(docs), "utf8");
+        bumped.forEach(r => this.writeChangelog(r, changes, outputFile));
+        results.push({ file: rel, success: documents.every(d => d.success), outputFile, documents, preserved });
       } catch (error: any) {
-        results.push({
-          file: path.basename(taskFile),
-          success: false,
-          error: error.message
-        });
+        results.push({ file: rel, success: false, documents, preserved, error: error.message });
       }
     }
 
-    const successCount = results.filter(r => r.success).length;
-    console.log(`[Orchestrator] Batch update complete: ${successCount}/${taskFiles.length} successful`);
+    const all = results.flatMap(r => r.documents);
+    const successCount = all.filter(d => d.success).length;
+    console.log(`[Orchestrator] Batch update complete: ${successCount}/${all.length} documents successful`);
 
     return {
-      total: taskFiles.length,
+      files: files.length,
+      total: all.length,
       successful: successCount,
-      failed: taskFiles.length - successCount,
+      failed: all.length - successCount,
+      skipped,
       results
     };
   }
 
+  // Adds an entry for a versioned update to CHANGELOG.md in the directory of
+  // the written resource. Updates that changed nothing add no entry.
+  private writeChangelog(result: any, changes: JumpstarterChange[], resourceFile: string) {
+    const bump: VersionBump | undefined = result.version;
+    if (!bump || bump.level === "none") return;
+    const file = path.join(path.dirname(resourceFile), "CHANGELOG.md");
+    const name = YAML.parse(result.updatedYaml)?.metadata?.name || path.basename(resourceFile);
+    appendChangelog(file, changelogEntry(name, bump, changes));
+    console.log(`[Orchestrator] Added ${bump.to || "Unreleased"} entry for ${name} to ${file}`);
+  }
+
+  private writeCompanions(companions: CompanionManifest[], dir: string): string[] {
+    if (companions.length === 0) return [];
+    fs.mkdirSync(dir, { recursive: true });
+    return companions.map(m => {
+      const file = path.join(dir, companionFileName(m));
+      fs.writeFileSync(file, m.yaml, "utf8");
+      console.log(`[Orchestrator] Wrote ${m.kind} ${m.name} to ${file}`);
+      return file;
+    });
+  }
+
   async autoUpdateWorkflow(taskYamlPath: string, changesPath: string, outputPath: string): Promise<any> {
     console.log("[Orchestrator] Starting auto-update workflow");
     
@@ -222,6 +407,94 @@ export class AgentOrchestrator {
     };
   }
 
+  // Polls changeSource every `interval` seconds until stopped (or once). New
+  // changes are queued as one update-task per Task, carrying all of them, and
+  // each updated Task is written to the same relative path under outputDir
+  // (companion manifests under outputDir/companions).
+  // A Task already written there by an earlier poll is updated from that
+  // copy, so proposals accumulate until they are reviewed.
+  async monitorWorkflow(changeSource: string, tasks: string, outputDir: string, options: MonitorOptions = {}): Promise<MonitorResult> {
+    console.log("[Orchestrator] Starting monitor workflow");
+
+    const isDir = fs.statSync(path.resolve(tasks)).isDirectory();
+    const outputRel = path.relative(path.resolve(tasks), path.resolve(outputDir));
+    const inside = isDir && outputRel !== "" && !outputRel.startsWith("..") && !path.isAbsolute(outputRel);
+    const base = isDir ? tasks : path.dirname(tasks);
+    const taskFiles = (isDir ? findYamlFiles(tasks, options.filter, inside ? [outputDir] : []) : [tasks]).filter(file => {
+      try {
+        if (detectKind(YAML.parse(fs.readFileSync(file, "utf8")))) return true;
+        console.log(`[Orchestrator] Not monitoring ${file}: not a Tekton resource`);
+      } catch (error: any) {
+        console.log(`[Orchestrator] Not monitoring ${file}: ${error.message} (use batch for multi-document files)`);
+      }
+      return false;
+    });
+    if (taskFiles.length === 0) {
+      throw new Error(`No Tekton resources found in ${tasks}`);
+    }
+    console.log(`[Orchestrator] Monitoring ${changeSource} for ${taskFiles.length} Task(s)`);
+
+    const result: MonitorResult = { polls: 0, changes: [], queued: 0, written: [], failed: [] };
+    this.running = true;
+
+    while (this.running) {
+      const check: AgentTask = {
+        id: `monitor-${Date.now()}`,
+        type: "monitor-changes",
+        data: { changeSource }
+      };
+      await this.agent.run(check);
+      const polled = this.agent.getState().taskHistory.get(check.id)?.slice(-1)[0];
+      if (!polled?.success) {
+        throw new Error(`Failed to poll ${changeSource}: ${polled?.result?.error}`);
+      }
+      const changes: JumpstarterChange[] = polled.result.changesFound || [];
+      result.polls++;
+      result.changes.push(...changes.map(c => c.id));
+
+      if (changes.length > 0) {
+        const failures = result.failed.length;
+        for (const file of taskFiles) {
+          const rel = path.relative(base, file);
+          const outputPath = path.join(outputDir, rel);
+          this.addTask({
+            id: `monitor-${Date.now()}-${rel}`,
+            type: "update-task",
+            data: { taskYaml: fs.readFileSync(fs.existsSync(outputPath) ? outputPath : file, "utf8"), changes, sourcePath: rel, outputPath }
+          });
+          result.queued++;
+        }
+        while (this.taskQueue.length > 0) {
+          const task = this.taskQueue.shift()!;
+          await this.executeTask(task);
+          const last = this.agent.getState().taskHistory.get(task.id)?.slice(-1)[0];
+          if (task.data.outputPath && last?.success && last.result?.updatedYaml) {
+            const out = path.resolve(task.data.outputPath);
+            fs.mkdirSync(path.dirname(out), { recursive: true });
+            fs.writeFileSync(out, last.result.updatedYaml, "utf8");
+            console.log(`[Orchestrator] Wrote updated ${task.data.sourcePath} to ${task.data.outputPath}`);
+            // Kept out of the Task file, which the next poll reads back
+            this.writeCompanions(last.result.companions || [], path.join(outputDir, "companions"));
+            result.written.push(task.data.outputPath);
+          } else if (!this.taskQueue.includes(task)) {
+            result.failed.push({ task: task.data.sourcePath, changes: (task.data.changes || []).map(c => c.id), error: last?.result?.error || "Unknown error" });
+          }
+        }
+        // Until every Task is written, the next poll hands the changes out again
+        if (result.failed.length === failures) {
+          this.agent.acknowledgeChanges(changeSource, changes.map(c => c.id));
+        } else {
+          console.log(`[Orchestrator] Not acknowledging ${changes.map(c => c.id).join(", ")}: retrying on the next poll`);
+        }
+      }
+
+      if (options.once || !this.running) break;
+      await this.sleep((options.interval ?? 60) * 1000);
+    }
+
+    return result;
+  }
+
   // Task queue management
   addTask(task: AgentTask): void {
     // Sort by priority (higher first)
@@ -1,5 +1,8 @@
 // Agent-specific type definitions
-import { JumpstarterChange } from "../types.js";
+import { CompanionManifest, JumpstarterChange } from "../types.js";
+import { TektonTarget } from "../tekton/target.js";
+import { FileFilter } from "../tekton/files.js";
+import { ProviderConfig } from "../llm/providers.js";
 
 export type AgentTaskType = 
   | "update-task"
@@ -35,6 +38,13 @@ export interface AgentMemory {
   success: boolean;
 }
 
+// One LLM proposal in AgentCore's repair loop; errors is empty for the one that passed.
+export interface LLMAttempt {
+  attempt: number; // 1-based
+  errors: string[];
+  response?: string; // the model's reply
+}
+
 export interface AgentState {
   memories: AgentMemory[];
   taskHistory: Map<string, AgentMemory[]>;
@@ -52,6 +62,83 @@ export interface AgentConfig {
   maxRetries?: number;
   autoApplyThreshold?: number;
   stateDir?: string;
-  enableLLM?: boolean;
+  rulesDir?: string; // extra rule packs (default: $TEKTON_RULES_DIR)
+  target?: TektonTarget; // Tekton Pipelines release and feature flags to hold proposals to
+  classifyWithLLM?: boolean; // LLM pass over impact areas of changes that declare none (default: $TEKTON_CLASSIFY_LLM)
+  enableLLM?: boolean; // use an LLM provider at all (default: whether one is configured)
+  llm?: ProviderConfig; // which provider; unset fields fall back to $LLM_PROVIDER etc. (see llm/providers.ts)
+  llmRepairAttempts?: number; // times a proposal failing validation goes back to the LLM (default: $LLM_REPAIR_ATTEMPTS or 2)
+}
+
+
+// Opt-in semantic version bump (see tekton/version.ts); changelog implies bump.
+export interface VersioningOptions {
+  bump?: boolean;
+  changelog?: boolean; // append an entry to CHANGELOG.md next to the written resource
 }
 
+export interface ConsumerProposal {
+  path: string;
+  pipelineName: string;
+  pipelineTasks: string[];
+  changed: boolean;
+  updatedYaml?: string;
+  outputPath?: string;
+  notes: string[];
+}
+
+// A Task update together with the Pipeline edits needed to pass its new params.
+export interface CombinedProposal {
+  taskName: string;
+  taskYaml: string;
+  companions: CompanionManifest[]; // ServiceAccount/RBAC manifests for the Task
+  addedParams: string[];
+  consumers: ConsumerProposal[];
+  notes: string[];
+}
+
+// One Tekton document of a batch file. Documents of other kinds (ConfigMaps,
+// ...) are not listed; they are written back unchanged.
+export interface BatchDocumentResult {
+  index: number; // position in the file's `---` stream
+  kind?: string;
+  name?: string;
+  success: boolean;
+  error?: string;
+  companionFiles?: string[];
+  notes?: string[];
+}
+
+export interface BatchFileResult {
+  file: string; // relative to the scanned directory
+  success: boolean; // every Tekton document updated
+  outputFile?: string;
+  documents: BatchDocumentResult[];
+  preserved: number; // non-Tekton documents written back as they were
+  error?: string;
+}
+
+export interface BatchResult {
+  files: number;
+  total: number; // Tekton documents
+  successful: number;
+  failed: number;
+  skipped: string[]; // files without Tekton documents
+  results: BatchFileResult[];
+}
+
+// Options of the monitor workflow; Tasks are a file or a directory of them.
+export interface MonitorOptions {
+  interval?: number; // seconds between polls (default 60)
+  once?: boolean; // poll once, process what was found and return
+  filter?: FileFilter; // when tasks is a directory
+}
+
+// What a monitor run did, poll by poll.
+export interface MonitorResult {
+  polls: number;
+  changes: string[]; // ids of the changes polled, in the order they were found (retried ones again)
+  queued: number; // update-tasks enqueued
+  written: string[]; // updated Tasks
+  failed: { task: string; changes: string[]; error: string }[];
+}
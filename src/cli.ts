@@ -2,33 +2,55 @@
 import fs from "node:fs";
 import path from "node:path";
 import YAML from "yaml";
-import { loadChangesFromFile } from "./jumpstarter/client.js";
-import { applyDeterministicRules, validateTaskYaml, mergeYAMLs, writeOut } from "./tekton/updater.js";
+import { loadChanges } from "./jumpstarter/client.js";
+import { applyDeterministicRules, validateResourceYaml, mergeYAMLs, writeOut } from "./tekton/updater.js";
 import { proposeWithLLM } from "./llm/propose.js";
+import { createProvider } from "./llm/providers.js";
+import { PatchConflictError, applyPatch, parsePatch } from "./tekton/apply.js";
+import { OutputFormat, colorizeDiff, describeChanges, parseOutputFormat, renderProposal, useColor } from "./tekton/diff.js";
 
 function read(p: string) { return fs.readFileSync(path.resolve(p), "utf8"); }
 
-async function propose(changePath: string, taskPath: string, out?: string) {
-  const changes = await loadChangesFromFile(changePath);
+// The LLM is the one the environment selects (see llm/providers.ts), unless `noLLM`.
+async function propose(changePath: string, taskPath: string, out?: string, format: OutputFormat = "yaml", noLLM = false) {
+  const changes = await loadChanges(changePath);
   const orig = read(taskPath);
-  validateTaskYaml(orig);
+  validateResourceYaml(orig);
   const rules = applyDeterministicRules(orig, changes);
+  const stages = rules.filter(r => r.changed && r.yaml).map(r => ({ source: r.name, yaml: r.yaml! }));
   const latest = rules.reverse().find(r => r.yaml)?.yaml || orig;
-  const proposal = await proposeWithLLM(latest, changes);
-  const merged = mergeYAMLs(proposal.updatedTaskYAML, latest);
-  if (out) await writeOut(out, merged);
-  else process.stdout.write(merged);
-  process.stderr.write(["\nNotes:", ...rules.flatMap(r=>r.notes), ...proposal.notes].join("\n") + "\n");
+  const proposal = await proposeWithLLM(latest, changes, noLLM ? undefined : createProvider());
+  const merged = mergeYAMLs(orig, latest, proposal.updatedTaskYAML);
+  const notes = [...rules.flatMap(r=>r.notes), ...proposal.notes, ...merged.notes];
+  const { diff, patch, baseHash } = describeChanges(orig, merged.yaml, [...stages, { source: "llm", yaml: proposal.updatedTaskYAML }], "merge", taskPath);
+  const output = renderProposal(format, { updatedYaml: merged.yaml, baseHash, diff, patch, conflicts: merged.conflicts, notes });
+  if (out) await writeOut(out, output);
+  else process.stdout.write(format === "diff" && useColor(process.stdout) ? colorizeDiff(output) : output);
+  process.stderr.write(["\nNotes:", ...notes, `Base sha256: ${baseHash}`].join("\n") + "\n");
 }
 
-async function apply(taskPath: string, patchPath: string, out: string) {
+// Applies a diff, JSON Patch or merge patch; `out` defaults to the Task
+// itself. Nothing is written when the patch conflicts with the Task.
+async function apply(taskPath: string, patchPath: string, out: string, expectedHash?: string) {
+  // Only the result has to be valid, so a migrate diff applies to a v1beta1 Task
   const orig = read(taskPath);
-  const updated = read(patchPath);
-  // validate both
-  validateTaskYaml(orig);
-  validateTaskYaml(updated);
-  await writeOut(out, updated);
-  process.stderr.write(`Wrote ${out}\n`);
+  const patch = parsePatch(read(patchPath));
+  try {
+    const { yaml, notes } = applyPatch(orig, patch, expectedHash);
+    await writeOut(out, yaml);
+    if (notes.length) process.stderr.write(["Notes:", ...notes].join("\n") + "\n");
+    process.stderr.write(`Applied ${patch.format} to ${taskPath}; wrote ${out}\n`);
+  } catch (e) {
+    if (!(e instanceof PatchConflictError)) throw e;
+    const report = e.conflicts.flatMap(c => [
+      `  ${c.location}: ${c.message}`,
+      ...(c.expected !== undefined ? [`    expected: ${c.expected}`] : []),
+      ...(c.actual !== undefined ? [`    actual:   ${c.actual}`] : [])
+    ]);
+    process.stderr.write([`Refusing to apply ${patchPath} to ${taskPath}; nothing written. Conflicts:`, ...report,
+      "Re-run propose against the current Task."].join("\n") + "\n");
+    process.exit(1);
+  }
 }
 
 const [,, cmd, ...args] = process.argv;
@@ -38,26 +60,29 @@ const [,, cmd, ...args] = process.argv;
     const changeIdx = args.indexOf("--change");
     const taskIdx = args.indexOf("--task");
     const outIdx = args.indexOf("--out");
+    const formatIdx = args.indexOf("--format");
     if (changeIdx === -1 || taskIdx === -1) {
-      console.error("Usage: propose --change <changes.json> --task <task.yaml> [--out <outfile>]");
+      console.error("Usage: propose --change <changes.json> --task <task.yaml> [--out <outfile>] [--format yaml|diff|patch|json] [--no-llm]");
       process.exit(1);
     }
-    await propose(args[changeIdx+1], args[taskIdx+1], outIdx !== -1 ? args[outIdx+1] : undefined);
+    const format = parseOutputFormat(formatIdx !== -1 ? args[formatIdx+1] : undefined);
+    await propose(args[changeIdx+1], args[taskIdx+1], outIdx !== -1 ? args[outIdx+1] : undefined, format, args.includes("--no-llm"));
     return;
   }
   if (cmd === "apply") {
     const taskIdx = args.indexOf("--task");
     const patchIdx = args.indexOf("--patch");
     const outIdx = args.indexOf("--out");
-    if (taskIdx === -1 || patchIdx === -1 || outIdx === -1) {
-      console.error("Usage: apply --task <task.yaml> --patch <proposal.yaml> --out <outfile>");
+    const hashIdx = args.indexOf("--base-hash");
+    if (taskIdx === -1 || patchIdx === -1) {
+      console.error("Usage: apply --task <task.yaml> --patch <proposal.diff|patch.json|merge.yaml> [--out <outfile>] [--base-hash <sha256>]");
       process.exit(1);
     }
-    await apply(args[taskIdx+1], args[patchIdx+1], args[outIdx+1]);
+    await apply(args[taskIdx+1], args[patchIdx+1], args[outIdx !== -1 ? outIdx+1 : taskIdx+1], hashIdx !== -1 ? args[hashIdx+1] : undefined);
     return;
   }
   console.log(`Commands:
-  propose --change <changes.json> --task <task.yaml> [--out <outfile>]
-  apply   --task <task.yaml> --patch <proposal.yaml> --out <outfile>
+  propose --change <changes.json> --task <task.yaml> [--out <outfile>] [--format yaml|diff|patch|json] [--no-llm]
+  apply   --task <task.yaml> --patch <proposal.diff|patch.json|merge.yaml> [--out <outfile>] [--base-hash <sha256>]
   `);
 })().catch(e => { console.error(e); process.exit(1); });
@@ -0,0 +1,132 @@
+// JumpstarterChange input, checked against schemas/jumpstarter-change.schema.json
+// wherever changes enter the agent (files, git/exporter sources, MCP
+// arguments). Input is normalized before it is validated, so "Networking" or
+// " rbac " is accepted and comes out as the canonical area.
+import Ajv from "ajv";
+import YAML from "yaml";
+import changeSchema from "./schemas/jumpstarter-change.schema.json" with { type: "json" };
+import { JumpstarterChange, ValidationIssue } from "../types.js";
+import { toValidationIssues } from "../tekton/validation.js";
+
+export { changeSchema };
+
+export const IMPACT_AREAS: string[] = changeSchema.definitions.impactArea.enum;
+
+// Other spellings seen in hand-written changes; keys are lowercased with
+// separators removed, like the input they are looked up with.
+const AREA_ALIASES: Record<string, string> = {
+  sa: "serviceAccount",
+  serviceaccounts: "serviceAccount",
+  net: "network",
+  networking: "network",
+  multus: "network",
+  param: "params",
+  parameters: "params",
+  result: "results",
+  role: "rbac",
+  roles: "rbac",
+  permissions: "rbac",
+  securitycontext: "security",
+  images: "image",
+  registry: "image",
+  apis: "api",
+  deploy: "deployment",
+  breakingchange: "breaking",
+  storagemux: "storage",
+  device: "devices"
+};
+
+const CANONICAL_AREAS = new Map(IMPACT_AREAS.map(a => [areaKey(a), a]));
+
+const ajv = new Ajv({ allErrors: true });
+const validateChange = ajv.compile(changeSchema);
+const validateChangeList = ajv.compile({ type: "array", items: { $ref: changeSchema.$id } });
+
+export class ChangeValidationError extends Error {
+  constructor(public readonly source: string, public readonly errors: ValidationIssue[]) {
+    super(`Invalid Jumpstarter changes in ${source}: ` + errors.map(e => `${e.path}: ${e.message}`).join("; "));
+    this.name = "ChangeValidationError";
+  }
+}
+
+function areaKey(area: string): string {
+  return area.toLowerCase().replace(/[\s_-]+/g, "");
+}
+
+// Unknown areas are returned as given (trimmed) for the schema to reject.
+export function normalizeImpactArea(area: string): string {
+  const key = areaKey(area.trim());
+  return CANONICAL_AREAS.get(key) || AREA_ALIASES[key] || area.trim();
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Trims text and canonicalizes impact areas; anything of the wrong type is
+// left alone so validation reports it where it is.
+function normalizeChange(input: unknown): unknown {
+  if (!isObject(input)) return input;
+  const change: Record<string, unknown> = { ...input };
+  for (const key of ["id", "title", "description", "capability"]) {
+    if (typeof change[key] === "string") change[key] = (change[key] as string).trim();
+  }
+  if (Array.isArray(change.impactAreas)) {
+    change.impactAreas = change.impactAreas.map(a => (typeof a === "string" ? normalizeImpactArea(a) : a));
+  }
+  return change;
+}
+
+// Non-throwing variant: the normalized changes, and every schema violation
+// addressed by its path in the input ("[2].impactAreas[0]"). A change that
+// repeats an earlier id is dropped; one that repeats it with different
+// content is an error.
+export function checkChanges(input: unknown): { changes: JumpstarterChange[]; errors: ValidationIssue[] } {
+  const single = !Array.isArray(input);
+  const normalized = single ? normalizeChange(input) : (input as unknown[]).map(normalizeChange);
+  const validate = single ? validateChange : validateChangeList;
+  if (!validate(normalized)) return { changes: [], errors: toValidationIssues(validate.errors) };
+
+  const changes: JumpstarterChange[] = [];
+  const errors: ValidationIssue[] = [];
+  const seen = new Map<string, { index: number; json: string }>();
+  (single ? [normalized] : (normalized as unknown[])).forEach((c, index) => {
+    const change = c as JumpstarterChange;
+    if (change.impactAreas) change.impactAreas = [...new Set(change.impactAreas)];
+    const json = JSON.stringify(change);
+    const first = seen.get(change.id);
+    if (!first) {
+      seen.set(change.id, { index, json });
+      changes.push(change);
+    } else if (first.json !== json) {
+      errors.push({ path: `[${index}].id`, message: `repeats the id of [${first.index}] with different content`, keyword: "uniqueId", params: { id: change.id } });
+    }
+  });
+  return { changes: errors.length ? [] : changes, errors };
+}
+
+export function normalizeChanges(input: unknown, source = "changes"): JumpstarterChange[] {
+  const { changes, errors } = checkChanges(input);
+  if (errors.length) throw new ChangeValidationError(source, errors);
+  return changes;
+}
+
+// A changes file's content: JSON, or YAML with one change or a list of them
+// per document.
+export function parseChanges(text: string, source = "changes", format: "json" | "yaml" = "yaml"): JumpstarterChange[] {
+  let input: unknown;
+  try {
+    if (format === "json") {
+      input = JSON.parse(text);
+    } else {
+      const docs = YAML.parseAllDocuments(text);
+      const failed = docs.find(d => d.errors.length);
+      if (failed) throw failed.errors[0];
+      const values = docs.map(d => d.toJSON()).filter(v => v !== null && v !== undefined);
+      input = values.length === 1 ? values[0] : values.flatMap(v => (Array.isArray(v) ? v : [v]));
+    }
+  } catch (e: any) {
+    throw new ChangeValidationError(source, [{ path: "(root)", message: `invalid ${format.toUpperCase()}: ${e.message}`, keyword: "parse" }]);
+  }
+  return normalizeChanges(input, source);
+}
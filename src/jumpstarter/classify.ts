@@ -0,0 +1,150 @@
+// Impact areas for changes that declare none, inferred from their title and
+// description. A keyword and pattern model gives each area a confidence (one
+// match of weight w is w sure; independent matches add up as 1 - Π(1 - w));
+// an optional LLM pass can confirm areas or add ones the patterns miss.
+// Inferred areas are reported next to the declared ones, never merged into
+// the change, so rules keep acting on what the change author declared. This
+// is the one table of what words and paths mean: the git and exporter change
+// sources go through it too.
+import { ImpactClassification, InferredImpactArea, JumpstarterChange } from "../types.js";
+import { IMPACT_AREAS } from "./changes.js";
+import { LLMImpactAreas, classifyWithLLM } from "../llm/classify.js";
+import { LLMProvider } from "../llm/providers.js";
+
+type AreaPattern = { area: string; pattern: RegExp; weight: number };
+
+const AREA_PATTERNS: AreaPattern[] = [
+  { area: "security", pattern: /\bprivileged\b/i, weight: 0.9 },
+  { area: "security", pattern: /\bprivilege[\s-]*escalation\b|\ballowPrivilegeEscalation\b/i, weight: 0.9 },
+  { area: "security", pattern: /\b(run(s|ning)?\s+as\s+root|root\s+(user|access|privileges?))\b/i, weight: 0.8 },
+  { area: "security", pattern: /\bsecurity[\s-]*context\b/i, weight: 0.8 },
+  { area: "security", pattern: /\b(CAP_[A-Z_]+|SYS_ADMIN|NET_ADMIN|NET_RAW)\b/, weight: 0.9 },
+  { area: "security", pattern: /\bhost[\s-]*(path|pid|ipc)\b/i, weight: 0.8 },
+  { area: "security", pattern: /\bhost[\s-]*network\b/i, weight: 0.6 },
+  { area: "security", pattern: /\/dev\/[\w/-]+/, weight: 0.6 },
+  { area: "security", pattern: /\b(seccomp|selinux|apparmor|scc)\b/i, weight: 0.7 },
+  { area: "security", pattern: /\bCVE-\d{4}-\d+\b/i, weight: 0.7 },
+  { area: "security", pattern: /\bsecurity\b/i, weight: 0.6 },
+  { area: "serviceAccount", pattern: /\bservice[\s-]*accounts?\b|\bserviceAccountName\b/i, weight: 0.9 },
+  { area: "serviceAccount", pattern: /\bimage[\s-]*pull[\s-]*secrets?\b/i, weight: 0.5 },
+  { area: "rbac", pattern: /\brbac\b/i, weight: 0.9 },
+  { area: "rbac", pattern: /\b(cluster[\s-]*)?role[\s-]*bindings?\b|\bcluster[\s-]*roles?\b/i, weight: 0.9 },
+  { area: "rbac", pattern: /\bpermissions?\b/i, weight: 0.5 },
+  { area: "network", pattern: /\bhost[\s-]*network\b/i, weight: 0.9 },
+  { area: "network", pattern: /\bmultus\b|\bNAD\b|\bnetwork[\s-]*attachment/i, weight: 0.9 },
+  { area: "network", pattern: /\bnetwork(s|ing)?\b/i, weight: 0.6 },
+  { area: "network", pattern: /\b(vlan|dhcp|dns|proxy|firewall|ingress|egress)\b/i, weight: 0.6 },
+  { area: "network", pattern: /\b(tcp|udp|ssh|https?)\b/i, weight: 0.5 },
+  { area: "params", pattern: /\bparam(eter)?s?\b/i, weight: 0.7 },
+  { area: "params", pattern: /\benv(ironment)?\s+var(iable)?s?\b/i, weight: 0.6 },
+  { area: "params", pattern: /\b(options?|flags?|settings?|configurable)\b/i, weight: 0.4 },
+  { area: "results", pattern: /\bresults?\b/i, weight: 0.7 },
+  { area: "results", pattern: /\b(digests?|artifacts?|sbom|attestations?|provenance)\b/i, weight: 0.6 },
+  { area: "quay", pattern: /\bquay(\.io)?\b/i, weight: 0.9 },
+  { area: "image", pattern: /\b(container|base)\s+images?\b/i, weight: 0.8 },
+  { area: "image", pattern: /\b(images?|registry|registries)\b/i, weight: 0.5 },
+  { area: "api", pattern: /\b(api|grpc|protocol)\b/i, weight: 0.5 },
+  { area: "deployment", pattern: /\b(helm|charts?|operator|deploy(ment|ed)?)\b/i, weight: 0.5 },
+  { area: "breaking", pattern: /\bbreaking\b/i, weight: 0.9 },
+  { area: "breaking", pattern: /\b(removed?|no\s+longer|deprecat(ed|es|ion)|renamed?|incompatible)\b/i, weight: 0.6 },
+  { area: "storage", pattern: /\b(storage|sd[\s-]?cards?|emmc|disk|sdwire|sd[\s-]?mux|flash(ing)?)\b/i, weight: 0.6 },
+  { area: "devices", pattern: /\/dev\/[\w/-]+/, weight: 0.8 },
+  { area: "devices", pattern: /\b(hardware|devices?)\b/i, weight: 0.5 },
+  { area: "power", pattern: /\b(pdu|ykush|yepkit|tasmota|energenie|shelly|power[\s-]*(cycl\w*|outlets?|relays?))\b/i, weight: 0.8 },
+  { area: "power", pattern: /\bpower\b/i, weight: 0.5 },
+  { area: "serial", pattern: /\b(serial|uart|baud(\s*rate)?)\b/i, weight: 0.7 },
+  { area: "serial", pattern: /\bconsole\b/i, weight: 0.4 },
+  { area: "usb", pattern: /\b(usb|dutlink)\b/i, weight: 0.8 },
+  { area: "video", pattern: /\b(video|hdmi|camera|ustreamer|screenshots?)\b/i, weight: 0.7 }
+];
+
+// Files a change touched; a path is evidence enough to declare the area.
+const PATH_AREAS: [RegExp, string][] = [
+  [/(^|\/)rbac(\/|$)|role(binding)?s?\.ya?ml$/i, "rbac"],
+  [/service[-_]?account/i, "serviceAccount"],
+  [/network|multus|\bnad\b/i, "network"],
+  [/(^|\/)(proto|protocol|api)\//, "api"],
+  [/(^|\/)(deploy|helm|charts?)\//, "deployment"]
+];
+
+// Inferred areas below this are left out.
+export const MIN_CONFIDENCE = 0.5;
+
+export type ClassifyOptions = {
+  llm?: LLMProvider; // also ask this provider
+  minConfidence?: number;
+};
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// Keyword and pattern model only; every area at or above minConfidence.
+export function inferImpactAreasFromText(text: string, minConfidence = MIN_CONFIDENCE): InferredImpactArea[] {
+  const byArea = new Map<string, { miss: number; evidence: string[] }>();
+  for (const { area, pattern, weight } of AREA_PATTERNS) {
+    const m = text.match(pattern);
+    if (!m) continue;
+    const entry = byArea.get(area) || { miss: 1, evidence: [] };
+    entry.miss *= 1 - weight;
+    if (!entry.evidence.some(e => e.toLowerCase() === m[0].toLowerCase())) entry.evidence.push(m[0]);
+    byArea.set(area, entry);
+  }
+  return [...byArea].map(([area, e]) => ({ area, confidence: round(1 - e.miss), evidence: e.evidence, source: "keywords" as const }))
+    .filter(a => a.confidence >= minConfidence)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+export function pathImpactAreas(files: string[]): string[] {
+  return PATH_AREAS.filter(([pattern]) => files.some(f => pattern.test(f))).map(([, area]) => area);
+}
+
+// Both models finding an area makes it surer; an area only one found keeps
+// that model's confidence.
+function mergeInferred(keywords: InferredImpactArea[], llm: InferredImpactArea[], minConfidence: number): InferredImpactArea[] {
+  const merged = new Map(keywords.map(a => [a.area, { ...a }]));
+  for (const a of llm) {
+    const k = merged.get(a.area);
+    if (!k) merged.set(a.area, a);
+    else merged.set(a.area, { area: a.area, confidence: round(1 - (1 - k.confidence) * (1 - a.confidence)), evidence: [...k.evidence, ...a.evidence.filter(e => !k.evidence.some(x => x.toLowerCase() === e.toLowerCase()))], source: "keywords+llm" });
+  }
+  return [...merged.values()].filter(a => a.confidence >= minConfidence).sort((a, b) => b.confidence - a.confidence);
+}
+
+export function classifyChange(change: JumpstarterChange, minConfidence = MIN_CONFIDENCE): ImpactClassification {
+  const declared = change.impactAreas || [];
+  if (declared.length > 0) return { changeId: change.id, declared, inferred: [], confidence: 1 };
+  const inferred = inferImpactAreasFromText(`${change.title}\n${change.description || ""}`, minConfidence);
+  return { changeId: change.id, declared, inferred, confidence: inferred[0]?.confidence || 0 };
+}
+
+// Classifies every change; with an `llm` provider, changes without declared
+// areas also get an LLM pass. An LLM failure falls back to the patterns, with a note.
+export async function classifyChanges(changes: JumpstarterChange[], options: ClassifyOptions = {}): Promise<{ classifications: ImpactClassification[]; notes: string[] }> {
+  const minConfidence = options.minConfidence ?? MIN_CONFIDENCE;
+  const classifications = changes.map(c => classifyChange(c, minConfidence));
+  const notes: string[] = [];
+  const undeclared = changes.filter(c => !c.impactAreas?.length);
+  if (!options.llm || undeclared.length === 0) return { classifications, notes };
+
+  let llm: LLMImpactAreas;
+  try {
+    llm = await classifyWithLLM(undeclared, IMPACT_AREAS, options.llm);
+  } catch (error: any) {
+    notes.push(`Impact areas: LLM classification failed (${error.message}); using keyword patterns only`);
+    return { classifications, notes };
+  }
+  for (const c of classifications) {
+    if (c.declared.length > 0) continue;
+    c.inferred = mergeInferred(c.inferred, llm.get(c.changeId) || [], minConfidence);
+    c.confidence = c.inferred[0]?.confidence || 0;
+  }
+  return { classifications, notes };
+}
+
+// "declared: network, quay" / "inferred: security 0.99 (privileged, security context)"
+export function describeClassification(c: ImpactClassification): string {
+  if (c.declared.length > 0) return `declared: ${c.declared.join(", ")}`;
+  if (c.inferred.length === 0) return "no impact areas recognized";
+  return `inferred: ${c.inferred.map(a => `${a.area} ${a.confidence.toFixed(2)}${a.evidence.length ? ` (${a.evidence.join(", ")})` : ""}${a.source !== "keywords" ? ` [${a.source}]` : ""}`).join("; ")}`;
+}
@@ -1,12 +1,27 @@
-// Placeholder: adapt to your Jumpstarter sources (Git, API, Changelog)
+// Where Jumpstarter changes come from: a JSON or YAML file, a local git
+// checkout (see git.ts) or two versions of the exporter configs (see
+// exporter.ts). Whichever it is, the changes are normalized and validated
+// against the JumpstarterChange schema (see changes.ts).
 import fs from "node:fs";
 import path from "node:path";
 import { JumpstarterChange } from "../types.js";
+import { loadChangesFromGit, parseGitSource } from "./git.js";
+import { loadChangesFromExporterConfigs, parseExporterSource } from "./exporter.js";
+import { normalizeChanges, parseChanges } from "./changes.js";
 
 export async function loadChangesFromFile(p: string): Promise<JumpstarterChange[]> {
   const full = path.resolve(p);
   const raw = fs.readFileSync(full, "utf8");
-  const j = JSON.parse(raw);
-  if (Array.isArray(j)) return j;
-  return [j];
+  return parseChanges(raw, p, path.extname(full).toLowerCase() === ".json" ? "json" : "yaml");
+}
+
+// A changes file (.json, else YAML), "git:<repo>[#<from>..<to>]" (see parseGitSource) or
+// "exporter:<before>,<after>" (see parseExporterSource).
+export async function loadChanges(source: string): Promise<JumpstarterChange[]> {
+  if (source.startsWith("git:")) return normalizeChanges((await loadChangesFromGit(parseGitSource(source))).changes, source);
+  if (source.startsWith("exporter:")) {
+    const { before, after } = parseExporterSource(source);
+    return normalizeChanges(await loadChangesFromExporterConfigs(before, after), source);
+  }
+  return loadChangesFromFile(source);
 }
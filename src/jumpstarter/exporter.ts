@@ -0,0 +1,239 @@
+// Changes derived from Jumpstarter exporter configs: what a lab's exporters
+// export (power, serial, storage mux, network, USB, ... drivers) is what the
+// Tasks driving them have to account for. Two versions of a config, or of a
+// directory of configs, are diffed driver by driver; every added, removed or
+// reconfigured driver becomes a JumpstarterChange the rules already handle
+// (params via suggestedParams, device mounts via /dev paths and "security").
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import YAML from "yaml";
+import { JumpstarterChange } from "../types.js";
+import { findYamlFiles } from "../tekton/files.js";
+import { inferImpactAreasFromText } from "./classify.js";
+
+// One driver of an exporter, addressed by its path in `export`
+// (children of composite drivers included), e.g. "dut.storage".
+export type ExporterDriver = {
+  path: string;
+  type: string;
+  config: Record<string, unknown>;
+};
+
+export type ExporterConfig = {
+  name: string; // metadata.name, or the file name
+  file: string;
+  drivers: Map<string, ExporterDriver>;
+};
+
+type DriverKind = { kind: string; area: string; impactAreas: string[]; needs: string };
+
+// By the impact area the classifier (see classify.ts) reads from the driver
+// class, e.g. jumpstarter_driver_sdwire.driver.SDWire is storage.
+const DRIVER_KINDS: DriverKind[] = [
+  { kind: "storage-mux", area: "storage", impactAreas: ["storage", "devices"], needs: "a host device mount for the storage device and a param selecting it" },
+  { kind: "power", area: "power", impactAreas: ["power"], needs: "params selecting the power outlet" },
+  { kind: "serial", area: "serial", impactAreas: ["serial", "devices"], needs: "a host device mount for the port and params for port and baud rate" },
+  { kind: "usb", area: "usb", impactAreas: ["usb", "devices"], needs: "a host device mount for the USB device" },
+  { kind: "network", area: "network", impactAreas: ["network"], needs: "params for the host and port to reach" },
+  { kind: "video", area: "video", impactAreas: ["video"], needs: "params for the stream to capture" }
+];
+
+const OTHER_KIND: DriverKind = { kind: "driver", area: "", impactAreas: [], needs: "params for its settings" };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Any evidence counts: a class name is all there is to go on. The surest
+// area with a driver kind wins.
+function kindOf(type: string): DriverKind {
+  const words = type.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[._]/g, " ");
+  for (const { area } of inferImpactAreasFromText(words, 0)) {
+    const kind = DRIVER_KINDS.find(k => k.area === area);
+    if (kind) return kind;
+  }
+  return OTHER_KIND;
+}
+
+// "jumpstarter_driver_sdwire.driver.SDWire" -> "SDWire"
+function shortType(type: string): string {
+  return type.split(".").pop() || type;
+}
+
+function devicePaths(config: Record<string, unknown>): string[] {
+  return Object.values(config).flatMap(v => (Array.isArray(v) ? v : [v]))
+    .filter((v): v is string => typeof v === "string" && /^\/dev\//.test(v));
+}
+
+// The `export` tree, flattened; composite drivers list theirs under `children`.
+function collectDrivers(tree: unknown, prefix: string, out: Map<string, ExporterDriver>) {
+  if (!isPlainObject(tree)) return;
+  for (const [name, entry] of Object.entries(tree)) {
+    if (!isPlainObject(entry)) continue;
+    const at = prefix ? `${prefix}.${name}` : name;
+    // A composite with no settings of its own only groups its children
+    const container = isPlainObject(entry.children) && !isPlainObject(entry.config);
+    if (typeof entry.type === "string" && !container) {
+      out.set(at, { path: at, type: entry.type, config: isPlainObject(entry.config) ? entry.config : {} });
+    }
+    collectDrivers(entry.children, at, out);
+  }
+}
+
+export function parseExporterConfig(yamlStr: string, file: string): ExporterConfig {
+  const obj = YAML.parse(yamlStr);
+  if (!isPlainObject(obj) || !isPlainObject(obj.export)) {
+    throw new Error(`${file} is not a Jumpstarter exporter config (no export section)`);
+  }
+  const drivers = new Map<string, ExporterDriver>();
+  collectDrivers(obj.export, "", drivers);
+  const name = isPlainObject(obj.metadata) && typeof obj.metadata.name === "string" ? obj.metadata.name : path.basename(file).replace(/\.ya?ml$/, "");
+  return { name, file, drivers };
+}
+
+// A file, or every exporter config under a directory (other YAML is ignored).
+export function readExporterConfigs(p: string): ExporterConfig[] {
+  const full = path.resolve(p);
+  if (!fs.statSync(full).isDirectory()) return [parseExporterConfig(fs.readFileSync(full, "utf8"), p)];
+  const configs: ExporterConfig[] = [];
+  for (const file of findYamlFiles(full)) {
+    try {
+      configs.push(parseExporterConfig(fs.readFileSync(file, "utf8"), path.relative(full, file)));
+    } catch {
+      // not an exporter config
+    }
+  }
+  return configs;
+}
+
+// "storage", "storage_device" -> "storageDevice"; "serial", "baudrate" -> "serialBaudrate"
+function paramName(driverPath: string, key: string): string {
+  const words = (s: string) => s.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/).filter(Boolean).map(w => w.toLowerCase());
+  const driver = words(driverPath.split(".").pop()!);
+  const own = words(key);
+  const all = own[0] === driver[driver.length - 1] ? [...driver.slice(0, -1), ...own] : [...driver, ...own];
+  return all.map((w, i) => (i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1))).join("");
+}
+
+function suggestedParams(driverPath: string, config: Record<string, unknown>, keys = Object.keys(config)): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = config[key];
+    const scalar = (v: unknown) => ["string", "number", "boolean"].includes(typeof v);
+    if (scalar(value) || (Array.isArray(value) && value.every(scalar))) params[paramName(driverPath, key)] = value;
+  }
+  return params;
+}
+
+function formatValue(v: unknown): string {
+  return v === undefined ? "(unset)" : typeof v === "string" ? v : JSON.stringify(v);
+}
+
+type Delta = {
+  action: "added" | "removed" | "retyped" | "reconfigured";
+  path: string;
+  before?: ExporterDriver;
+  after?: ExporterDriver;
+  keys: string[]; // config keys that differ (reconfigured)
+};
+
+function driverDeltas(before: Map<string, ExporterDriver>, after: Map<string, ExporterDriver>): Delta[] {
+  const deltas: Delta[] = [];
+  for (const [at, driver] of after) {
+    const old = before.get(at);
+    if (!old) {
+      deltas.push({ action: "added", path: at, after: driver, keys: [] });
+    } else if (old.type !== driver.type) {
+      deltas.push({ action: "retyped", path: at, before: old, after: driver, keys: [] });
+    } else {
+      const keys = [...new Set([...Object.keys(old.config), ...Object.keys(driver.config)])]
+        .filter(k => JSON.stringify(old.config[k]) !== JSON.stringify(driver.config[k]));
+      if (keys.length) deltas.push({ action: "reconfigured", path: at, before: old, after: driver, keys });
+    }
+  }
+  for (const [at, driver] of before) {
+    if (!after.has(at)) deltas.push({ action: "removed", path: at, before: driver, keys: [] });
+  }
+  return deltas;
+}
+
+// The same delta on several exporters is one change.
+function deltaKey(d: Delta): string {
+  const keys = d.keys.map(k => [k, d.before?.config[k], d.after?.config[k]]);
+  return JSON.stringify([d.action, d.path, d.before?.type, d.after?.type, d.action === "added" ? d.after!.config : keys]);
+}
+
+function toChange(d: Delta, exporters: string[]): JumpstarterChange {
+  const driver = (d.after || d.before)!;
+  const kind = kindOf(driver.type);
+  // security.ts mounts every /dev path it finds after a space; so old values
+  // only as key=value.
+  const on = `${exporters.length > 1 ? "exporters" : "exporter"} ${exporters.join(", ")}`;
+  const verb = exporters.length > 1 ? "export" : "exports";
+  const id = `exporter-${d.action}-${d.path.replace(/\./g, "-")}-${crypto.createHash("sha256").update(deltaKey(d)).digest("hex").slice(0, 8)}`;
+  const impactAreas = new Set(kind.impactAreas);
+  let title: string;
+  let description: string;
+  let params: Record<string, unknown> = {};
+
+  if (d.action === "added") {
+    title = `New ${kind.kind} driver ${d.path} (${shortType(driver.type)})`;
+    description = `The ${on} now ${verb} ${d.path} (${driver.type}); Tasks using it need ${kind.needs}.`;
+    params = suggestedParams(d.path, driver.config);
+  } else if (d.action === "removed") {
+    title = `Removed ${kind.kind} driver ${d.path} (${shortType(driver.type)})`;
+    description = `The ${on} no longer ${verb} ${d.path} (${driver.type}); Tasks that drive it will fail.`;
+    impactAreas.add("breaking");
+  } else if (d.action === "retyped") {
+    title = `Replaced ${d.path} driver ${shortType(d.before!.type)} with ${shortType(d.after!.type)}`;
+    description = `${d.path} on ${on} is now ${d.after!.type} (was ${d.before!.type}); Tasks using it need ${kind.needs}.`;
+    for (const area of kindOf(d.before!.type).impactAreas) impactAreas.add(area);
+    params = suggestedParams(d.path, driver.config);
+  } else {
+    title = `Reconfigured ${kind.kind} driver ${d.path} (${d.keys.join(", ")})`;
+    description = `${d.path} on ${on}: ${d.keys.map(k => `${k}=${formatValue(d.after!.config[k])} (was ${k}=${formatValue(d.before!.config[k])})`).join(", ")}.`;
+    params = suggestedParams(d.path, driver.config, d.keys.filter(k => d.after!.config[k] !== undefined));
+  }
+
+  // Host devices mean a hostPath mount, which security.ts adds for review
+  const devices = d.action === "removed" ? [] : devicePaths(d.action === "reconfigured" ? Object.fromEntries(d.keys.map(k => [k, driver.config[k]])) : driver.config);
+  if (devices.length) {
+    impactAreas.add("security");
+    description += ` Needs host device access: ${devices.join(", ")}.`;
+  }
+  if (Object.keys(params).length) impactAreas.add("params");
+
+  const change: JumpstarterChange = { id, title, description, capability: kind.kind, impactAreas: [...impactAreas] };
+  if (Object.keys(params).length) change.suggestedParams = params;
+  return change;
+}
+
+// Exporters are matched by name; one only on one side counts as all of its
+// drivers added (or removed).
+export function diffExporterConfigs(before: ExporterConfig[], after: ExporterConfig[]): JumpstarterChange[] {
+  const names = [...new Set([...before, ...after].map(c => c.name))];
+  const grouped = new Map<string, { delta: Delta; exporters: string[] }>();
+  for (const name of names) {
+    const old = before.find(c => c.name === name)?.drivers || new Map();
+    const current = after.find(c => c.name === name)?.drivers || new Map();
+    for (const delta of driverDeltas(old, current)) {
+      const key = deltaKey(delta);
+      const group = grouped.get(key) || { delta, exporters: [] };
+      group.exporters.push(name);
+      grouped.set(key, group);
+    }
+  }
+  return [...grouped.values()].map(g => toChange(g.delta, g.exporters));
+}
+
+export async function loadChangesFromExporterConfigs(beforePath: string, afterPath: string): Promise<JumpstarterChange[]> {
+  return diffExporterConfigs(readExporterConfigs(beforePath), readExporterConfigs(afterPath));
+}
+
+// "exporter:<before>,<after>"; each a config file or a directory of them.
+export function parseExporterSource(source: string): { before: string; after: string } {
+  const [before, after, ...rest] = source.replace(/^exporter:/, "").split(",");
+  if (!before || !after || rest.length) throw new Error(`Invalid exporter source ${source}; expected exporter:<before>,<after>`);
+  return { before, after };
+}
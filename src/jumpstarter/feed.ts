@@ -0,0 +1,98 @@
+// Change feeds the monitor polls: a changes file (or any other loadChanges
+// source), a directory of changes files, a git checkout or an HTTP(S) JSON
+// feed. A poll takes the cursor the previous one returned and yields the
+// changes since, plus the cursor for the next poll. A feed may repeat changes
+// it already yielded; the monitor's ledger drops those by id.
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { JumpstarterChange } from "../types.js";
+import { loadChanges, loadChangesFromFile } from "./client.js";
+import { loadChangesFromGit, parseGitSource } from "./git.js";
+import { normalizeChanges } from "./changes.js";
+
+export type FeedKind = "file" | "directory" | "git" | "http";
+
+export type FeedPoll = {
+  kind: FeedKind;
+  changes: JumpstarterChange[];
+  cursor?: string; // pass to the next poll of the same source
+};
+
+const CHANGES_FILE = /\.(json|ya?ml)$/i;
+
+export function feedKind(source: string): FeedKind {
+  if (/^https?:\/\//i.test(source)) return "http";
+  if (source.startsWith("git:")) return "git";
+  if (!source.startsWith("exporter:") && fs.existsSync(source) && fs.statSync(source).isDirectory()) return "directory";
+  return "file";
+}
+
+function sha256(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+// The whole source each time; the cursor is a hash of what was read, so an
+// unchanged source yields nothing.
+async function pollSnapshot(source: string, cursor?: string): Promise<FeedPoll> {
+  const changes = await loadChanges(source);
+  const hash = sha256(JSON.stringify(changes));
+  return { kind: "file", changes: hash === cursor ? [] : changes, cursor: hash };
+}
+
+// Files modified at or after the cursor (the newest mtime read so far, in ms),
+// oldest first. Same-millisecond writes are read again rather than missed.
+async function pollDirectory(dir: string, cursor?: string): Promise<FeedPoll> {
+  const since = cursor !== undefined ? Number(cursor) : -Infinity;
+  const files = (fs.readdirSync(dir, { recursive: true }) as string[])
+    .filter(f => CHANGES_FILE.test(f))
+    .map(f => ({ file: path.join(dir, f), mtime: fs.statSync(path.join(dir, f)).mtimeMs }))
+    .filter(f => f.mtime >= since)
+    .sort((a, b) => a.mtime - b.mtime || a.file.localeCompare(b.file));
+  const changes: JumpstarterChange[] = [];
+  for (const { file } of files) changes.push(...(await loadChangesFromFile(file)));
+  const newest = files.length ? files[files.length - 1].mtime : since;
+  return { kind: "directory", changes, cursor: Number.isFinite(newest) ? String(newest) : cursor };
+}
+
+// Commits after the last `to` read (the source's own range on the first poll).
+async function pollGit(source: string, cursor?: string): Promise<FeedPoll> {
+  const options = parseGitSource(source);
+  if (cursor) options.from = cursor;
+  const { to, changes } = await loadChangesFromGit(options);
+  return { kind: "git", changes: to === cursor ? [] : normalizeChanges(changes, source), cursor: to };
+}
+
+// GET <url>?since=<cursor>. The body is a change or an array of them, or
+// {"changes": [...], "cursor": "..."}; without a cursor in the body the
+// previous one is kept. 204 and 304 mean nothing new.
+async function pollHttp(url: string, cursor?: string, timeoutMs = 30000): Promise<FeedPoll> {
+  const target = new URL(url);
+  if (cursor !== undefined) target.searchParams.set("since", cursor);
+  const res = await fetch(target, { headers: { Accept: "application/json" }, signal: AbortSignal.timeout(timeoutMs) });
+  if (res.status === 204 || res.status === 304) return { kind: "http", changes: [], cursor };
+  if (!res.ok) throw new Error(`GET ${target} failed: ${res.status} ${res.statusText}`);
+  let body: any;
+  try {
+    body = await res.json();
+  } catch (e: any) {
+    throw new Error(`GET ${target} did not return JSON: ${e.message}`);
+  }
+  const feed = body && typeof body === "object" && !Array.isArray(body) && "changes" in body;
+  const changes = normalizeChanges(feed ? body.changes : body, url);
+  const next = feed && body.cursor !== undefined && body.cursor !== null ? String(body.cursor) : cursor;
+  return { kind: "http", changes, cursor: next };
+}
+
+export async function pollChangeFeed(source: string, cursor?: string): Promise<FeedPoll> {
+  switch (feedKind(source)) {
+    case "http":
+      return pollHttp(source, cursor);
+    case "git":
+      return pollGit(source, cursor);
+    case "directory":
+      return pollDirectory(source, cursor);
+    default:
+      return pollSnapshot(source, cursor);
+  }
+}
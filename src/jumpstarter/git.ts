@@ -0,0 +1,219 @@
+// Changes read from a local Jumpstarter checkout: conventional commits
+// between two refs (or one change per tag), plus the CHANGELOG.md sections
+// added in that range. Ids are commit SHAs, so re-reading a range yields the
+// same changes.
+import { execFileSync } from "node:child_process";
+import path from "node:path";
+import { JumpstarterChange } from "../types.js";
+import { pathImpactAreas } from "./classify.js";
+
+export type GitSourceOptions = {
+  repo: string;
+  from?: string; // exclusive; default: the last tag before `to` (all history if untagged)
+  to?: string; // default: HEAD
+  by?: "commit" | "tag"; // one change per conventional commit, or per tag in the range
+  changelog?: string | false; // path in the repo; default CHANGELOG.md
+};
+
+export type GitChangeSet = {
+  from?: string; // resolved SHA
+  to: string;
+  changes: JumpstarterChange[];
+  skipped: string[]; // "<sha> <subject>" of commits that are not conventional or are docs/ci/...
+};
+
+type Commit = { sha: string; subject: string; body: string; files: string[] };
+
+// Conventional commit types that do not change what Jumpstarter does.
+const IGNORED_TYPES = new Set(["docs", "test", "tests", "chore", "ci", "style", "build"]);
+
+const CONVENTIONAL = /^(\w+)(?:\(([^)]+)\))?(!)?:\s*(.+)$/;
+
+// packages/jumpstarter-driver-<name>/... names the driver the change is about.
+const PATH_CAPABILITIES: [RegExp, (m: RegExpMatchArray) => string][] = [
+  [/(?:^|\/)jumpstarter-driver-([\w-]+)\//, m => `driver-${m[1]}`],
+  [/(?:^|\/)jumpstarter-([\w-]+)\//, m => m[1]]
+];
+
+function git(repo: string, args: string[]): string {
+  try {
+    return execFileSync("git", ["-C", repo, ...args], { encoding: "utf8", maxBuffer: 64 * 1024 * 1024, stdio: ["ignore", "pipe", "pipe"] });
+  } catch (e: any) {
+    throw new Error(`git ${args.join(" ")} failed in ${repo}: ${String(e.stderr || e.message).trim()}`);
+  }
+}
+
+function tryGit(repo: string, args: string[]): string | undefined {
+  try {
+    return git(repo, args).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+// The conventional-commit scope if there is one, else the package most of the
+// changed files live in.
+export function inferCapability(scope: string | undefined, files: string[] = []): string | undefined {
+  if (scope) return scope;
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    for (const [pattern, name] of PATH_CAPABILITIES) {
+      const m = file.match(pattern);
+      if (m) {
+        counts.set(name(m), (counts.get(name(m)) || 0) + 1);
+        break;
+      }
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function readCommits(repo: string, range: string): Commit[] {
+  const out = git(repo, ["log", "--no-merges", "--reverse", "--format=%x1e%H%x1f%B%x1f", "--name-only", range]);
+  return out.split("\x1e").slice(1).map(record => {
+    const [sha, message, names] = record.split("\x1f");
+    const [subject, ...body] = message.trim().split("\n");
+    return { sha, subject: subject.trim(), body: body.join("\n").trim(), files: (names || "").split("\n").map(f => f.trim()).filter(Boolean) };
+  });
+}
+
+// A conventional commit as a change; undefined for other commits and for
+// types that do not change behaviour.
+export function commitToChange(commit: Commit): JumpstarterChange | undefined {
+  const m = commit.subject.match(CONVENTIONAL);
+  if (!m || IGNORED_TYPES.has(m[1].toLowerCase())) return undefined;
+  const breaking = !!m[3] || /^BREAKING[ -]CHANGE:/m.test(commit.body);
+  // Only what the paths show; the wording is left to the classifier, which scores its guesses
+  const impactAreas = pathImpactAreas(commit.files);
+  if (breaking) impactAreas.push("breaking");
+  const change: JumpstarterChange = { id: commit.sha, title: m[4].trim() };
+  if (commit.body) change.description = commit.body;
+  const capability = inferCapability(m[2], commit.files);
+  if (capability) change.capability = capability;
+  if (impactAreas.length) change.impactAreas = impactAreas;
+  return change;
+}
+
+// "## heading" -> body, in file order.
+function changelogSections(text: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let heading: string | undefined;
+  let body: string[] = [];
+  const flush = () => {
+    if (heading !== undefined) sections.set(heading, body.join("\n").trim());
+  };
+  for (const line of text.split("\n")) {
+    const m = line.match(/^##\s+(.+?)\s*$/);
+    if (m) {
+      flush();
+      heading = m[1];
+      body = [];
+    } else if (heading !== undefined) {
+      body.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+// Sections CHANGELOG.md gained between `from` and `to`, each attributed to
+// the commit that added its heading. Bullets that cite a commit already read
+// from the log are left out.
+function changelogChanges(repo: string, file: string, from: string | undefined, to: string, seen: Set<string>): JumpstarterChange[] {
+  const after = tryGit(repo, ["show", `${to}:${file}`]);
+  if (after === undefined) return [];
+  const before = new Set(from ? changelogSections(tryGit(repo, ["show", `${from}:${file}`]) || "").keys() : []);
+  const changes: JumpstarterChange[] = [];
+  for (const [heading, body] of changelogSections(after)) {
+    if (before.has(heading)) continue;
+    const range = from ? `${from}..${to}` : to;
+    const sha = git(repo, ["log", "--format=%H", "-S", `## ${heading}`, range, "--", file]).trim().split("\n").pop() || to;
+    const lines = body.split("\n").filter(l => !/^\s*[-*]\s/.test(l) || ![...seen].some(s => new RegExp(`\\b${s.slice(0, 7)}`).test(l)));
+    const description = lines.join("\n").trim();
+    // Nothing left once the bullets already read from the log are gone
+    const bullet = /^\s*[-*]\s/m;
+    if (!description || (bullet.test(body) && !bullet.test(description))) continue;
+    changes.push({ id: sha, title: heading.replace(/^\[([^\]]+)\]/, "$1"), description });
+  }
+  return changes;
+}
+
+// One change per tag in the range, summarizing its conventional commits;
+// commits after the last tag make an "Unreleased" change at `to`.
+function tagChanges(repo: string, from: string | undefined, to: string, commits: Commit[]): JumpstarterChange[] {
+  const tags = git(repo, ["tag", "--merged", to, "--sort=creatordate", ...(from ? ["--no-merged", from] : [])]).split("\n").filter(Boolean);
+  const points = tags.map(tag => {
+    // Only annotated tags have a message of their own
+    const annotated = tryGit(repo, ["cat-file", "-t", tag]) === "tag";
+    return { sha: git(repo, ["rev-list", "-n", "1", tag]).trim(), title: tag, message: annotated ? tryGit(repo, ["tag", "-l", "--format=%(contents:subject)", tag]) : undefined };
+  });
+  if (points[points.length - 1]?.sha !== to) points.push({ sha: to, title: `Unreleased (${to.slice(0, 7)})`, message: undefined });
+
+  const changes: JumpstarterChange[] = [];
+  let previous = from;
+  for (const point of points) {
+    const inRange = new Set(git(repo, ["rev-list", previous ? `${previous}..${point.sha}` : point.sha]).split("\n").filter(Boolean));
+    previous = point.sha;
+    const included = commits.filter(c => inRange.has(c.sha)).map(c => ({ commit: c, change: commitToChange(c) })).filter(c => c.change);
+    if (included.length === 0) continue;
+    const change: JumpstarterChange = {
+      id: point.sha,
+      title: point.message ? `${point.title}: ${point.message}` : point.title,
+      description: included.map(c => `- ${c.commit.subject}`).join("\n")
+    };
+    const capabilities = [...new Set(included.map(c => c.change!.capability).filter(Boolean))];
+    if (capabilities.length === 1) change.capability = capabilities[0];
+    const impactAreas = [...new Set(included.flatMap(c => c.change!.impactAreas || []))];
+    if (impactAreas.length) change.impactAreas = impactAreas;
+    changes.push(change);
+  }
+  return changes;
+}
+
+export async function loadChangesFromGit(options: GitSourceOptions): Promise<GitChangeSet> {
+  const repo = path.resolve(options.repo);
+  if (tryGit(repo, ["rev-parse", "--git-dir"]) === undefined) throw new Error(`${options.repo} is not a git repository`);
+  const to = git(repo, ["rev-parse", "--verify", `${options.to || "HEAD"}^{commit}`]).trim();
+  const fromRef = options.from ?? tryGit(repo, ["describe", "--tags", "--abbrev=0", `${to}^`]);
+  const from = fromRef ? git(repo, ["rev-parse", "--verify", `${fromRef}^{commit}`]).trim() : undefined;
+
+  const commits = readCommits(repo, from ? `${from}..${to}` : to);
+  const skipped: string[] = [];
+  let changes: JumpstarterChange[] = [];
+  for (const commit of commits) {
+    const change = commitToChange(commit);
+    if (change) changes.push(change);
+    else skipped.push(`${commit.sha.slice(0, 7)} ${commit.subject}`);
+  }
+  if (options.by === "tag") changes = tagChanges(repo, from, to, commits);
+
+  if (options.changelog !== false) {
+    const seen = new Set(commits.filter(c => commitToChange(c)).map(c => c.sha));
+    for (const change of changelogChanges(repo, options.changelog || "CHANGELOG.md", from, to, seen)) {
+      // The commit that added the section may be a change of its own
+      if (changes.some(c => c.id === change.id)) change.id = `${change.id}-changelog`;
+      changes.push(change);
+    }
+  }
+  return { from, to, changes, skipped };
+}
+
+// "git:<repo>[#<from>..<to>][?by=tag&changelog=<path>]", e.g.
+// "git:../jumpstarter#v0.6.0..main". A bare "#<from>" reads up to HEAD.
+export function parseGitSource(source: string): GitSourceOptions {
+  const [rest, query = ""] = source.replace(/^git:/, "").split("?");
+  const [repo, range] = rest.split("#");
+  const options: GitSourceOptions = { repo };
+  if (range) {
+    const [from, to] = range.split("..");
+    if (from) options.from = from;
+    if (to) options.to = to;
+  }
+  for (const [key, value] of new URLSearchParams(query)) {
+    if (key === "by" && (value === "commit" || value === "tag")) options.by = value;
+    else if (key === "changelog") options.changelog = value === "false" ? false : value;
+    else throw new Error(`Unknown git source option ${key}=${value}; expected by=commit|tag or changelog=<path>|false`);
+  }
+  if (!repo) throw new Error(`Invalid git source ${source}; expected git:<repo>[#<from>..<to>]`);
+  return options;
+}
@@ -0,0 +1,31 @@
+import { InferredImpactArea, JumpstarterChange } from "../types.js";
+import { LLMProvider } from "./providers.js";
+
+export type LLMImpactAreas = Map<string, InferredImpactArea[]>; // by change id
+
+// Second opinion on impact areas for changes that declare none; areas
+// outside `areas` are ignored.
+export async function classifyWithLLM(changes: JumpstarterChange[], areas: string[], provider: LLMProvider): Promise<LLMImpactAreas> {
+
+  const system = `You classify Jumpstarter changes by the parts of a Tekton Task they affect. For each change, list the impact areas that apply, chosen only from: ${areas.join(", ")}. Reply with JSON only: {"<change id>": [{"area": "...", "confidence": 0.0-1.0, "reason": "<a few words from the change>"}]}. Leave out areas you are not sure of.`;
+  const user = JSON.stringify(changes.map(c => ({ id: c.id, title: c.title, description: c.description, capability: c.capability })));
+
+  const text = await provider.complete({ system, user, json: true });
+  const match = text.match(/```(?:json)?\n([\s\S]*?)```/i);
+  const parsed = JSON.parse(match ? match[1] : text);
+
+  const known = new Set(areas);
+  const result: LLMImpactAreas = new Map();
+  for (const change of changes) {
+    const entries = Array.isArray(parsed?.[change.id]) ? parsed[change.id] : [];
+    result.set(change.id, entries
+      .filter((e: any) => known.has(e?.area) && typeof e.confidence === "number")
+      .map((e: any) => ({
+        area: e.area,
+        confidence: Math.max(0, Math.min(1, e.confidence)),
+        evidence: typeof e.reason === "string" && e.reason ? [e.reason] : [],
+        source: "llm" as const
+      })));
+  }
+  return result;
+}
@@ -0,0 +1,93 @@
+// The LLM's answer to a proposal request: typed edit ops checked against
+// schemas/edit-ops.schema.json and applied locally through the same kind
+// logic as the deterministic rules (kinds.ts), so parts of the resource no
+// op names are never rewritten.
+import Ajv from "ajv";
+import YAML from "yaml";
+import editOpsSchema from "./schemas/edit-ops.schema.json" with { type: "json" };
+import { JumpstarterChange, LLMEditOp, ValidationIssue } from "../types.js";
+import { toValidationIssues } from "../tekton/validation.js";
+import { RuleRequirement, applyRequirementToKind, detectKind } from "../tekton/kinds.js";
+import { patchYamlSource } from "../tekton/yaml-edit.js";
+
+export { editOpsSchema };
+
+const ajv = new Ajv({ allErrors: true });
+const validateEditOps = ajv.compile(editOpsSchema);
+
+// `response` is the reply the ops came from, for a repair request.
+export class EditOpsError extends Error {
+  constructor(public readonly source: string, public readonly errors: ValidationIssue[], public readonly response?: string) {
+    super(`Invalid LLM edits from ${source}: ` + errors.map(e => `${e.path}: ${e.message}`).join("; "));
+    this.name = "EditOpsError";
+  }
+}
+
+// Ops from the model's reply; a fenced block is unwrapped first.
+export function parseEditOps(text: string, source: string): LLMEditOp[] {
+  const match = text.match(/```(?:json)?\n([\s\S]*?)```/i);
+  let value: any;
+  try {
+    value = JSON.parse(match ? match[1] : text);
+  } catch (e: any) {
+    throw new EditOpsError(source, [{ path: "(root)", message: "invalid JSON: " + e.message, keyword: "parse" }], text);
+  }
+  if (!validateEditOps(value)) throw new EditOpsError(source, toValidationIssues(validateEditOps.errors), text);
+  const ops = (value as { ops?: LLMEditOp[] }).ops || [];
+  const issues: ValidationIssue[] = [];
+  ops.forEach((op, i) => {
+    if (op.op === "modifyStepScript" && op.before === op.after) {
+      issues.push({ path: `ops[${i}].after`, message: "must differ from before", keyword: "not" });
+    }
+  });
+  if (issues.length > 0) throw new EditOpsError(source, issues, text);
+  return ops;
+}
+
+function opRequirement(op: LLMEditOp): RuleRequirement {
+  switch (op.op) {
+    case "addParam":
+      return { params: [{ name: op.name, type: op.type, description: op.description, default: op.default }] };
+    case "addResult":
+      return { results: [{ name: op.name, description: op.description }] };
+    case "addEnv":
+      return { env: [{ name: op.name, value: op.value, step: op.step }] };
+    case "modifyStepScript":
+      return { scriptEdits: [{ step: op.step, before: op.before, after: op.after }] };
+  }
+}
+
+// "param foo (string)", "env FOO on step build", "script of step build"
+export function describeEditOp(op: LLMEditOp): string {
+  switch (op.op) {
+    case "addParam": return `param ${op.name} (${op.type || "string"})`;
+    case "addResult": return `result ${op.name}`;
+    case "addEnv": return `env ${op.name}${op.step ? ` on step ${op.step}` : ""}`;
+    case "modifyStepScript": return `script of step ${op.step}`;
+  }
+}
+
+// Applies the ops in order, each noted with its rationale; one that is
+// already there says so. An op that changes nothing because it cannot apply
+// (no such step, an anchor not found exactly once, a replacement using
+// undeclared params) throws EditOpsError with all such ops.
+export function applyEditOps(yamlStr: string, ops: LLMEditOp[], changes: JumpstarterChange[], source: string, response?: string): { yaml: string; changed: boolean; notes: string[] } {
+  const obj = YAML.parse(yamlStr);
+  const kind = detectKind(obj);
+  if (!kind) return { yaml: yamlStr, changed: false, notes: [`Unsupported kind "${obj?.kind}"; LLM edits not applied`] };
+
+  let changed = false;
+  const notes: string[] = [];
+  const issues: ValidationIssue[] = [];
+  ops.forEach((op, i) => {
+    const applied = applyRequirementToKind(kind, obj, opRequirement(op), changes);
+    changed ||= applied.changed;
+    if (!applied.changed && applied.skipped?.length) {
+      issues.push(...applied.skipped.map(s => ({ path: `ops[${i}].${s.field}`, message: s.message, keyword: "apply" })));
+    }
+    notes.push(`LLM ${describeEditOp(op)}: ${op.rationale}`);
+    notes.push(...(applied.notes.length ? applied.notes : [`Nothing to change on this ${kind}`]));
+  });
+  if (issues.length > 0) throw new EditOpsError(source, issues, response);
+  return { yaml: changed ? patchYamlSource(yamlStr, obj) : yamlStr, changed, notes };
+}
@@ -1,40 +1,39 @@
-import YAML from "yaml";
-import { JumpstarterChange, Proposal } from "../types.js";
+import { JumpstarterChange, Proposal, RepairRequest } from "../types.js";
+import { TektonTarget, describeTarget } from "../tekton/target.js";
+import { LLMProvider, describeProvider } from "./providers.js";
+import { applyEditOps, editOpsSchema, parseEditOps } from "./edits.js";
 
-export async function proposeWithLLM(taskYaml: string, changes: JumpstarterChange[]): Promise<Proposal> {
-  // No vendor SDK to keep simple; rely on fetch if OPENAI_API_KEY is present.
-  const apiKey = process.env.OPENAI_API_KEY;
-  const system = `You are an expert in Tekton and CI/CD on OpenShift. Generate a complete Task YAML that safely generalizes the described Jumpstarter changes. Preserve existing fields; only add validated params/results/steps.`;
+// `provider` undefined means the LLM is disabled: the resource comes back
+// unchanged, with a note saying why. Callers pick the provider (see
+// createProvider in providers.ts); nothing here reads the environment. The
+// model answers with edit ops (see edits.ts), never with the resource itself;
+// ops that do not match the schema, or cannot be applied, throw
+// EditOpsError. With `repair`, the model also gets its previous reply and the
+// errors it led to.
+export async function proposeWithLLM(taskYaml: string, changes: JumpstarterChange[], provider: LLMProvider | undefined, target?: TektonTarget, repair?: RepairRequest): Promise<Proposal> {
+  const system = `You are an expert in Tekton and CI/CD on OpenShift. Propose the edits to the given Tekton resource (Task, Pipeline, TaskRun, PipelineRun or StepAction) that safely generalize the described Jumpstarter changes. Reply with JSON only: {"ops": [...]}, where each op is one of:
+- {"op": "addParam", "name", "type"?, "description"?, "default"?, "rationale"}
+- {"op": "addResult", "name", "description"?, "rationale"}
+- {"op": "addEnv", "name", "value", "step"? (every step when left out), "rationale"}
+- {"op": "modifyStepScript", "step", "before" (text of the current script, occurring exactly once), "after" (its replacement), "rationale"}
+The rationale names the change the op serves. Edits the resource already has are not needed, and anything no op names stays as it is; reply {"ops": []} if nothing is needed. If previousAttempt is given, that reply failed with the listed errors: reply with corrected ops, not with what failed again.${target ? `\n\n${describeTarget(target)}` : ""}`;
   const user = JSON.stringify({
     taskYaml,
-    changes
+    changes,
+    ...(repair ? { previousAttempt: repair.previous, errors: repair.errors } : {})
   });
 
-  if (!apiKey) {
-    // Offline fallback: suggest no-op with a note
-    return { notes: ["OPENAI_API_KEY not set; returning original YAML"], updatedTaskYAML: taskYaml };
+  if (!provider) {
+    return { notes: ["No LLM provider enabled (set LLM_PROVIDER, OPENAI_API_KEY or ANTHROPIC_API_KEY); returning original YAML"], updatedTaskYAML: taskYaml };
   }
 
-  // Minimal fetch-based call to OpenAI compatible endpoint (user to set OPENAI_BASE if needed)
-  const base = process.env.OPENAI_BASE || "https://api.openai.com/v1";
-  const model = process.env.OPENAI_MODEL || "gpt-4o-mini";
-  const res = await fetch(base + "/chat/completions", {
-    method: "POST",
-    headers: { "Content-Type":"application/json", "Authorization": `Bearer ${apiKey}` },
-    body: JSON.stringify({
-      model,
-      messages: [{role:"system", content: system},{role:"user", content: user}],
-      response_format: {"type":"text"}
-    })
-  });
-
-  if (!res.ok) throw new Error("LLM call failed: " + res.status + " " + (await res.text()));
-  const data = await res.json();
-  const text = data.choices?.[0]?.message?.content || "";
-  // Attempt to extract YAML fenced block if present
-  const match = text.match(/```(?:yaml|yml)?\n([\s\S]*?)```/i);
-  const yaml = match ? match[1] : text;
-  // quick sanity parse
-  YAML.parse(yaml);
-  return { notes: ["LLM-proposed changes"], updatedTaskYAML: yaml };
+  const text = await provider.complete({ system, user, schema: { name: "edit_ops", schema: editOpsSchema } });
+  const ops = parseEditOps(text, describeProvider(provider));
+  const applied = applyEditOps(taskYaml, ops, changes, describeProvider(provider), text);
+  return {
+    notes: [`LLM-proposed changes (${describeProvider(provider)}): ${ops.length} edit(s)`, ...applied.notes],
+    updatedTaskYAML: applied.yaml,
+    ops,
+    response: text
+  };
 }
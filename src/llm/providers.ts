@@ -0,0 +1,251 @@
+// LLM providers behind one interface: OpenAI-compatible APIs, Anthropic
+// Messages, Ollama and llama.cpp on localhost, and a deterministic mock.
+// Each has its own defaults (endpoint, model, timeout) and retries 429s,
+// 5xx responses, timeouts and network errors with exponential backoff.
+import fs from "node:fs";
+
+export type ProviderName = "openai" | "anthropic" | "ollama" | "llamacpp" | "mock";
+
+export const PROVIDER_NAMES: ProviderName[] = ["openai", "anthropic", "ollama", "llamacpp", "mock"];
+
+export type CompletionRequest = {
+  system: string;
+  user: string;
+  json?: boolean; // ask for a JSON object back
+  schema?: { name: string; schema: Record<string, unknown> }; // JSON that must match this schema (implies json)
+};
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+// Anything unset falls back to the provider's environment variables, then
+// to its defaults (see PROVIDER_DEFAULTS).
+export type ProviderConfig = {
+  provider?: ProviderName;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  maxRetries?: number; // retries after the first attempt
+  backoffMs?: number; // first retry delay; doubles each time
+  mockResponse?: string; // mock only: file whose content every completion returns
+};
+
+type ProviderDefaults = {
+  baseUrl: string;
+  model: string;
+  timeoutMs: number;
+  env: { apiKey?: string; baseUrl: string; model: string };
+};
+
+const PROVIDER_DEFAULTS: Record<Exclude<ProviderName, "mock">, ProviderDefaults> = {
+  openai: { baseUrl: "https://api.openai.com/v1", model: "gpt-4o-mini", timeoutMs: 60000, env: { apiKey: "OPENAI_API_KEY", baseUrl: "OPENAI_BASE", model: "OPENAI_MODEL" } },
+  anthropic: { baseUrl: "https://api.anthropic.com", model: "claude-3-5-haiku-latest", timeoutMs: 60000, env: { apiKey: "ANTHROPIC_API_KEY", baseUrl: "ANTHROPIC_BASE_URL", model: "ANTHROPIC_MODEL" } },
+  // Local models are slow on CPU; give them longer
+  ollama: { baseUrl: "http://127.0.0.1:11434", model: "llama3.1", timeoutMs: 300000, env: { baseUrl: "OLLAMA_HOST", model: "OLLAMA_MODEL" } },
+  llamacpp: { baseUrl: "http://127.0.0.1:8080/v1", model: "local", timeoutMs: 300000, env: { baseUrl: "LLAMACPP_BASE", model: "LLAMACPP_MODEL" } }
+};
+
+type ResolvedConfig = { model: string; baseUrl: string; apiKey?: string; timeoutMs: number; maxRetries: number; backoffMs: number };
+
+function envNumber(name: string): number | undefined {
+  const v = process.env[name];
+  return v !== undefined && v !== "" && !isNaN(Number(v)) ? Number(v) : undefined;
+}
+
+function resolveConfig(name: Exclude<ProviderName, "mock">, config: ProviderConfig): ResolvedConfig {
+  const d = PROVIDER_DEFAULTS[name];
+  return {
+    model: config.model || process.env[d.env.model] || d.model,
+    baseUrl: (config.baseUrl || process.env[d.env.baseUrl] || d.baseUrl).replace(/\/+$/, ""),
+    apiKey: config.apiKey || (d.env.apiKey ? process.env[d.env.apiKey] : undefined) || undefined,
+    timeoutMs: config.timeoutMs ?? envNumber("LLM_TIMEOUT_MS") ?? d.timeoutMs,
+    maxRetries: config.maxRetries ?? envNumber("LLM_MAX_RETRIES") ?? 3,
+    backoffMs: config.backoffMs ?? envNumber("LLM_BACKOFF_MS") ?? 1000
+  };
+}
+
+// What providers are sent; $schema and $id mean nothing to them.
+function responseSchema(request: CompletionRequest): Record<string, unknown> | undefined {
+  if (!request.schema) return undefined;
+  const { $schema: _schema, $id: _id, ...schema } = request.schema.schema;
+  return schema;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function retryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// POSTs JSON, retrying what may succeed later; a Retry-After header (in
+// seconds) replaces the backoff delay. Other 4xx fail at once.
+async function postJson(provider: ProviderName, url: string, headers: Record<string, string>, body: unknown, config: ResolvedConfig): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    let failure = "";
+    let retryAfter: number | undefined;
+    let res: Response | undefined;
+    try {
+      res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(config.timeoutMs)
+      });
+    } catch (e: any) {
+      failure = e.name === "TimeoutError" ? `timed out after ${config.timeoutMs}ms` : e.message;
+    }
+    if (res) {
+      if (res.ok) return await res.json();
+      failure = `${res.status} ${await res.text()}`;
+      if (!retryable(res.status)) throw new Error(`LLM call failed (${provider}): ${failure}`);
+      const header = Number(res.headers.get("retry-after"));
+      if (header > 0) retryAfter = header * 1000;
+    }
+    if (attempt >= config.maxRetries) {
+      throw new Error(`LLM call failed (${provider}) after ${attempt + 1} attempt(s): ${failure}`);
+    }
+    const delay = retryAfter ?? config.backoffMs * 2 ** attempt;
+    console.warn(`[LLM] ${provider}: ${failure.split("\n")[0]}; retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+// OpenAI /chat/completions; llama.cpp's server speaks the same API.
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly model: string;
+
+  constructor(readonly name: "openai" | "llamacpp", private config: ResolvedConfig) {
+    this.model = config.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const headers: Record<string, string> = this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+    const schema = responseSchema(request);
+    const data = await postJson(this.name, `${this.config.baseUrl}/chat/completions`, headers, {
+      model: this.model,
+      messages: [{ role: "system", content: request.system }, { role: "user", content: request.user }],
+      response_format: schema
+        ? { type: "json_schema", json_schema: { name: request.schema!.name, schema } }
+        : { type: request.json ? "json_object" : "text" }
+    }, this.config);
+    return data.choices?.[0]?.message?.content || "";
+  }
+}
+
+class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const;
+  readonly model: string;
+
+  constructor(private config: ResolvedConfig) {
+    this.model = config.model;
+  }
+
+  // No JSON mode: a schema becomes a tool the model must call, whose input is
+  // the answer; plain JSON requests rely on the prompt and callers strip fences.
+  async complete(request: CompletionRequest): Promise<string> {
+    const schema = responseSchema(request);
+    const data = await postJson(this.name, `${this.config.baseUrl}/v1/messages`, {
+      "x-api-key": this.config.apiKey || "",
+      "anthropic-version": "2023-06-01"
+    }, {
+      model: this.model,
+      max_tokens: 8192,
+      system: request.system,
+      messages: [{ role: "user", content: request.user }],
+      ...(schema ? {
+        tools: [{ name: request.schema!.name, description: "Submit the answer", input_schema: schema }],
+        tool_choice: { type: "tool", name: request.schema!.name }
+      } : {})
+    }, this.config);
+    const tool = (data.content || []).find((b: any) => b.type === "tool_use");
+    if (tool) return JSON.stringify(tool.input);
+    return (data.content || []).filter((b: any) => b.type === "text").map((b: any) => b.text).join("");
+  }
+}
+
+class OllamaProvider implements LLMProvider {
+  readonly name = "ollama" as const;
+  readonly model: string;
+
+  constructor(private config: ResolvedConfig) {
+    this.model = config.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const data = await postJson(this.name, `${this.config.baseUrl}/api/chat`, {}, {
+      model: this.model,
+      stream: false,
+      ...(request.schema ? { format: responseSchema(request) } : request.json ? { format: "json" } : {}),
+      messages: [{ role: "system", content: request.system }, { role: "user", content: request.user }]
+    }, this.config);
+    return data.message?.content || "";
+  }
+}
+
+// Deterministic and offline: returns the mockResponse file if configured,
+// else "{}" for JSON requests, which proposals and classification read as
+// nothing to change. Every request is kept in `calls`.
+export class MockProvider implements LLMProvider {
+  readonly name = "mock" as const;
+  readonly model = "mock";
+  readonly calls: CompletionRequest[] = [];
+
+  constructor(private response?: string) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.calls.push(request);
+    if (this.response !== undefined) return fs.readFileSync(this.response, "utf8");
+    return request.json || request.schema ? "{}" : "";
+  }
+}
+
+// The provider named by config.provider or $LLM_PROVIDER; without either,
+// OpenAI if OPENAI_API_KEY is set, then Anthropic if ANTHROPIC_API_KEY is.
+export function selectedProvider(config: ProviderConfig = {}): ProviderName | undefined {
+  const named = config.provider || process.env.LLM_PROVIDER;
+  if (named) {
+    if (!PROVIDER_NAMES.includes(named as ProviderName)) {
+      throw new Error(`Unknown LLM provider ${named}; expected one of: ${PROVIDER_NAMES.join(", ")}`);
+    }
+    return named as ProviderName;
+  }
+  if (config.apiKey || process.env.OPENAI_API_KEY) return "openai";
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  return undefined;
+}
+
+// undefined when no provider is selected; throws when the selected one
+// lacks its API key.
+export function createProvider(config: ProviderConfig = {}): LLMProvider | undefined {
+  const name = selectedProvider(config);
+  if (!name) return undefined;
+  if (name === "mock") return new MockProvider(config.mockResponse || process.env.LLM_MOCK_RESPONSE || undefined);
+  const resolved = resolveConfig(name, config);
+  if ((name === "openai" || name === "anthropic") && !resolved.apiKey) {
+    throw new Error(`LLM provider ${name} needs ${PROVIDER_DEFAULTS[name].env.apiKey}`);
+  }
+  if (name === "anthropic") return new AnthropicProvider(resolved);
+  if (name === "ollama") return new OllamaProvider(resolved);
+  return new OpenAICompatibleProvider(name, resolved);
+}
+
+// The provider to use: none when `enabled` is false, else the configured one.
+// `enabled` defaults to whether one is configured; true without one throws.
+export function enabledProvider(enabled: boolean | undefined, config: ProviderConfig = {}): LLMProvider | undefined {
+  if (enabled === false) return undefined;
+  const provider = createProvider(config);
+  if (enabled && !provider) {
+    throw new Error("LLM enabled but no provider configured (set LLM_PROVIDER, OPENAI_API_KEY or ANTHROPIC_API_KEY)");
+  }
+  return provider;
+}
+
+export function describeProvider(provider: LLMProvider): string {
+  return provider.model === provider.name ? provider.name : `${provider.name} ${provider.model}`;
+}
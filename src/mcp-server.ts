@@ -3,13 +3,18 @@
 //   pnpm agent mcp-server
 // This legacy server is kept for backwards compatibility.
 
-import { loadChangesFromFile } from "./jumpstarter/client.js";
-import { applyDeterministicRules, validateTaskYaml, mergeYAMLs } from "./tekton/updater.js";
+import { loadChanges } from "./jumpstarter/client.js";
+import { ChangeValidationError, normalizeChanges } from "./jumpstarter/changes.js";
+import { applyDeterministicRules, validateResourceYaml, mergeYAMLs } from "./tekton/updater.js";
 import { proposeWithLLM } from "./llm/propose.js";
+import { createProvider } from "./llm/providers.js";
 import fs from "node:fs";
 
 type Req = { id: number|string, method: string, params?: any };
-type Res = { id: number|string, result?: any, error?: {code:number,message:string} };
+type Res = { id: number|string, result?: any, error?: {code:number,message:string,data?:unknown} };
+
+// Chosen once at startup; --no-llm applies deterministic rules only.
+const llm = process.argv.includes("--no-llm") ? undefined : createProvider();
 
 console.warn("⚠️  You are using the legacy MCP server.");
 console.warn("⚠️  For full agent capabilities, use: pnpm agent mcp-server");
@@ -19,16 +24,17 @@ async function handle(req: Req): Promise<Res> {
   try {
     if (req.method === "proposeUpdate") {
       const { changePath, taskYaml } = req.params;
-      const changes = changePath ? await loadChangesFromFile(changePath) : req.params.changes;
-      validateTaskYaml(taskYaml);
+      const changes = changePath ? await loadChanges(changePath) : normalizeChanges(req.params.changes);
+      validateResourceYaml(taskYaml);
       const deterministic = applyDeterministicRules(taskYaml, changes);
       const latest = deterministic.reverse().find(r => r.yaml)?.yaml || taskYaml;
-      const proposal = await proposeWithLLM(latest, changes);
-      const merged = mergeYAMLs(proposal.updatedTaskYAML, latest);
-      return { id: req.id, result: { yaml: merged, notes: [...deterministic.flatMap(r=>r.notes), ...proposal.notes] } };
+      const proposal = await proposeWithLLM(latest, changes, llm);
+      const merged = mergeYAMLs(taskYaml, latest, proposal.updatedTaskYAML);
+      return { id: req.id, result: { yaml: merged.yaml, conflicts: merged.conflicts, notes: [...deterministic.flatMap(r=>r.notes), ...proposal.notes, ...merged.notes] } };
     }
     return { id: req.id, error: { code: -32601, message: "Method not found" } };
   } catch (e:any) {
+    if (e instanceof ChangeValidationError) return { id: req.id, error: { code: -32602, message: e.message, data: e.errors } };
     return { id: req.id, error: { code: -32000, message: e.message } };
   }
 }
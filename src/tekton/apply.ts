@@ -0,0 +1,315 @@
+// Applying a reviewed proposal to the Task it was made from. Takes what
+// `propose` writes (a unified diff, a JSON Patch or the JSON envelope) or an
+// RFC 7386 merge patch, and refuses, listing every conflict, when the Task
+// has changed since the proposal was made.
+import YAML from "yaml";
+import { JsonPatchOperation, PatchConflict } from "../types.js";
+import { BASE_HASH_PREFIX, baseHash } from "./diff.js";
+import { patchYamlSource } from "./yaml-edit.js";
+import { validateResourceYaml } from "./updater.js";
+
+export type PatchFormat = "json-patch" | "merge-patch" | "diff";
+
+export type ParsedPatch =
+  | { format: "json-patch"; ops: JsonPatchOperation[]; baseHash?: string }
+  | { format: "merge-patch"; patch: Record<string, unknown>; baseHash?: string }
+  | { format: "diff"; diff: string; baseHash?: string };
+
+export class PatchConflictError extends Error {
+  constructor(public readonly format: PatchFormat, public readonly conflicts: PatchConflict[]) {
+    super(`${format} does not apply: ` + conflicts.map(c => `${c.location}: ${c.message}`).join("; "));
+    this.name = "PatchConflictError";
+  }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function clone<T>(v: T): T {
+  return v === undefined ? v : JSON.parse(JSON.stringify(v));
+}
+
+function show(v: unknown): string {
+  return v === undefined ? "(missing)" : JSON.stringify(v);
+}
+
+// ---- format detection ----
+
+function asOps(value: unknown[]): JsonPatchOperation[] {
+  value.forEach((op, i) => {
+    if (!isObject(op) || typeof op.op !== "string" || typeof op.path !== "string") {
+      throw new Error(`JSON Patch op ${i + 1} needs string "op" and "path" fields`);
+    }
+  });
+  return value as JsonPatchOperation[];
+}
+
+function fromValue(value: unknown): ParsedPatch {
+  if (Array.isArray(value)) return { format: "json-patch", ops: asOps(value) };
+  // `propose --format patch|json`: the patch together with the hash it was made against
+  if (isObject(value) && Array.isArray(value.patch) && (typeof value.baseHash === "string" || typeof value.updatedYaml === "string")) {
+    return { format: "json-patch", ops: asOps(value.patch), baseHash: typeof value.baseHash === "string" ? value.baseHash : undefined };
+  }
+  if (isObject(value)) return { format: "merge-patch", patch: value };
+  throw new Error("Patch must be a JSON Patch array, a merge patch object or a unified diff");
+}
+
+// A JSON array is a JSON Patch, the propose patch and JSON envelopes carry one, text
+// with hunks is a unified diff, and any other JSON/YAML object is a merge
+// patch. Only the first document of multi-document YAML is used.
+export function parsePatch(text: string): ParsedPatch {
+  if (text.trim() === "") throw new Error("Patch is empty; nothing to apply");
+  if (/^\s*[[{]/.test(text)) {
+    let value: unknown;
+    try { value = JSON.parse(text); } catch { value = undefined; }
+    if (value !== undefined) return fromValue(value);
+  }
+  if (/^@@ -\d/m.test(text)) {
+    const header = text.search(/^--- /m);
+    const preamble = (header === -1 ? text : text.slice(0, header)).split("\n");
+    const hashLine = preamble.find(l => l.startsWith(BASE_HASH_PREFIX));
+    return { format: "diff", diff: text, baseHash: hashLine?.slice(BASE_HASH_PREFIX.length).trim() };
+  }
+  const docs = YAML.parseAllDocuments(text);
+  if (docs.length === 0) throw new Error("Patch is empty; nothing to apply");
+  if (docs[0].errors.length > 0) throw new Error("Patch is not valid YAML: " + docs[0].errors[0].message);
+  return fromValue(docs[0].toJS());
+}
+
+// ---- JSON Patch (RFC 6902) ----
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new Error(`"${pointer}" is not a JSON Pointer`);
+  return pointer.slice(1).split("/").map(t => t.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+// The container holding the pointer's last token. The document sits under a
+// wrapper so the root ("") can be replaced like any other value.
+function locate(wrapper: { doc: unknown }, pointer: string): { parent: any; key: string } {
+  const tokens = ["doc", ...parsePointer(pointer)];
+  let parent: any = wrapper;
+  for (const [i, token] of tokens.slice(0, -1).entries()) {
+    const next = Array.isArray(parent) ? parent[Number(token)] : parent?.[token];
+    if (next === null || typeof next !== "object" || (Array.isArray(parent) && !/^\d+$/.test(token))) {
+      throw new Error(`${"/" + tokens.slice(1, i + 2).join("/")} does not exist`);
+    }
+    parent = next;
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+function index(parent: unknown[], key: string, allowEnd: boolean): number {
+  if (allowEnd && key === "-") return parent.length;
+  const max = allowEnd ? parent.length : parent.length - 1;
+  if (!/^\d+$/.test(key) || Number(key) > max) throw new Error(`index ${key} is out of range (length ${parent.length})`);
+  return Number(key);
+}
+
+function get(wrapper: { doc: unknown }, pointer: string): unknown {
+  const { parent, key } = locate(wrapper, pointer);
+  if (Array.isArray(parent)) return parent[index(parent, key, false)];
+  if (!(key in parent)) throw new Error(`${pointer} does not exist`);
+  return parent[key];
+}
+
+function add(wrapper: { doc: unknown }, pointer: string, value: unknown) {
+  const { parent, key } = locate(wrapper, pointer);
+  if (Array.isArray(parent)) parent.splice(index(parent, key, true), 0, value);
+  else parent[key] = value;
+}
+
+function remove(wrapper: { doc: unknown }, pointer: string): unknown {
+  const { parent, key } = locate(wrapper, pointer);
+  if (Array.isArray(parent)) return parent.splice(index(parent, key, false), 1)[0];
+  if (!(key in parent)) throw new Error(`${pointer} does not exist`);
+  const value = parent[key];
+  delete parent[key];
+  return value;
+}
+
+function applyOp(wrapper: { doc: unknown }, op: JsonPatchOperation) {
+  switch (op.op) {
+    case "add": add(wrapper, op.path, clone(op.value)); return;
+    case "remove": remove(wrapper, op.path); return;
+    case "replace": get(wrapper, op.path); remove(wrapper, op.path); add(wrapper, op.path, clone(op.value)); return;
+    case "move": add(wrapper, op.path, remove(wrapper, requireFrom(op))); return;
+    case "copy": add(wrapper, op.path, clone(get(wrapper, requireFrom(op)))); return;
+    case "test": {
+      const actual = get(wrapper, op.path);
+      if (JSON.stringify(actual) !== JSON.stringify(op.value)) throw new Error(`test failed: expected ${show(op.value)}, found ${show(actual)}`);
+      return;
+    }
+    default: throw new Error(`unknown op "${(op as any).op}"`);
+  }
+}
+
+function requireFrom(op: JsonPatchOperation): string {
+  if (typeof op.from !== "string") throw new Error(`${op.op} needs a "from" pointer`);
+  return op.from;
+}
+
+// Applies every op it can; each one that fails is a conflict. Ops are not
+// rolled back, as the caller discards the document when there are conflicts.
+export function applyJsonPatch(doc: unknown, ops: JsonPatchOperation[]): { doc: unknown; conflicts: PatchConflict[] } {
+  const wrapper = { doc: clone(doc) };
+  const conflicts: PatchConflict[] = [];
+  ops.forEach((op, i) => {
+    try {
+      applyOp(wrapper, op);
+    } catch (e: any) {
+      conflicts.push({ location: `op ${i + 1} (${op.op} ${op.path})`, message: e.message });
+    }
+  });
+  return { doc: wrapper.doc, conflicts };
+}
+
+// ---- merge patch (RFC 7386) ----
+
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return clone(patch);
+  const out: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete out[key];
+    else out[key] = applyMergePatch(out[key], value);
+  }
+  return out;
+}
+
+// ---- unified diff ----
+
+type Hunk = { header: string; oldStart: number; oldCount: number; lines: string[] };
+type FileSection = { from: string; to: string; hunks: Hunk[] };
+
+function stripPrefix(name: string): string {
+  return name.split("\t")[0].replace(/^[ab]\//, "");
+}
+
+function parseDiff(diff: string): FileSection[] {
+  const lines = diff.split("\n");
+  const sections: FileSection[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      sections.push({ from: lines[i].slice(4), to: lines[i + 1].slice(4), hunks: [] });
+      i++;
+      continue;
+    }
+    const m = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(lines[i]);
+    if (!m) continue;
+    const section = sections[sections.length - 1];
+    if (!section) throw new Error(`Hunk "${lines[i]}" comes before any ---/+++ file header`);
+    const oldCount = m[2] === undefined ? 1 : Number(m[2]);
+    const newCount = m[4] === undefined ? 1 : Number(m[4]);
+    const hunk: Hunk = { header: lines[i], oldStart: Number(m[1]), oldCount, lines: [] };
+    let seenOld = 0, seenNew = 0;
+    while (seenOld < oldCount || seenNew < newCount) {
+      const line = lines[++i];
+      if (line === undefined) throw new Error(`Hunk "${hunk.header}" is truncated`);
+      if (line.startsWith("\\")) continue; // "\ No newline at end of file"
+      // Some editors strip the space from empty context lines
+      const body = line === "" ? " " : line;
+      if (body[0] === " ") { seenOld++; seenNew++; }
+      else if (body[0] === "-") seenOld++;
+      else if (body[0] === "+") seenNew++;
+      else throw new Error(`Hunk "${hunk.header}" has an unexpected line: ${line}`);
+      hunk.lines.push(body);
+    }
+    section.hunks.push(hunk);
+  }
+  return sections;
+}
+
+// Context must match exactly at the stated line numbers; there is no fuzz,
+// since a Task that moved under the proposal is the case to refuse.
+function applyHunks(text: string, hunks: Hunk[]): { text: string; conflicts: PatchConflict[] } {
+  const lines = text === "" ? [] : text.split("\n");
+  const trailingNewline = text === "" || lines[lines.length - 1] === "";
+  if (trailingNewline && lines.length > 0) lines.pop();
+
+  const out: string[] = [];
+  const conflicts: PatchConflict[] = [];
+  let cursor = 0;
+  hunks.forEach((hunk, n) => {
+    const location = `hunk ${n + 1} (${hunk.header})`;
+    // An empty old range names the line before the insertion point
+    const start = hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    if (start < cursor) {
+      conflicts.push({ location, message: "overlaps the previous hunk" });
+      return;
+    }
+    const old = hunk.lines.filter(l => l[0] !== "+").map(l => l.slice(1));
+    const mismatch = old.findIndex((l, k) => lines[start + k] !== l);
+    if (mismatch !== -1) {
+      conflicts.push({
+        location,
+        message: `does not match line ${start + mismatch + 1}`,
+        expected: old[mismatch],
+        actual: lines[start + mismatch] ?? "(end of file)"
+      });
+      return;
+    }
+    out.push(...lines.slice(cursor, start), ...hunk.lines.filter(l => l[0] !== "-").map(l => l.slice(1)));
+    cursor = start + old.length;
+  });
+  out.push(...lines.slice(cursor));
+  return { text: out.join("\n") + (trailingNewline && out.length > 0 ? "\n" : ""), conflicts };
+}
+
+// Only the Task's own section applies; new-file sections (companion
+// manifests) are skipped with a note.
+export function applyUnifiedDiff(text: string, diff: string): { text: string; conflicts: PatchConflict[]; notes: string[] } {
+  const sections = parseDiff(diff);
+  const created = sections.filter(s => s.from === "/dev/null");
+  const targets = sections.filter(s => s.from !== "/dev/null");
+  if (targets.length === 0) throw new Error("Diff does not change any existing file");
+  if (targets.length > 1) {
+    throw new Error(`Diff changes ${targets.length} files (${targets.map(s => stripPrefix(s.from)).join(", ")}); apply one Task at a time`);
+  }
+  const notes = created.map(s => `Skipped new file ${stripPrefix(s.to)} from the diff; write companions with propose --companions-dir`);
+  return { ...applyHunks(text, targets[0].hunks), notes };
+}
+
+// ---- apply ----
+
+// Applies `patch` to the Task text. The base hash (from the patch, or
+// `expectedHash` when given) must match the Task as it is now; conflicts from
+// a stale base and from ops or hunks that no longer fit are reported
+// together. The result is validated against the Tekton schemas.
+export function applyPatch(taskYaml: string, patch: ParsedPatch, expectedHash?: string): { yaml: string; notes: string[] } {
+  const notes: string[] = [];
+  const conflicts: PatchConflict[] = [];
+  const current = baseHash(taskYaml);
+  const expected = [...new Set([expectedHash, patch.baseHash].filter((h): h is string => !!h))];
+  for (const hash of expected) {
+    if (hash !== current) {
+      conflicts.push({ location: "base", message: "the Task has changed since the proposal was made", expected: hash, actual: current });
+    }
+  }
+  if (expected.length === 0) {
+    notes.push("Patch carries no base hash; applied without checking that the Task is unchanged since the proposal (pass --base-hash)");
+  }
+
+  let yaml: string;
+  if (patch.format === "diff") {
+    const result = applyUnifiedDiff(taskYaml, patch.diff);
+    conflicts.push(...result.conflicts);
+    notes.push(...result.notes);
+    yaml = result.text;
+  } else {
+    const original = YAML.parse(taskYaml);
+    let updated: unknown;
+    if (patch.format === "json-patch") {
+      const result = applyJsonPatch(original, patch.ops);
+      conflicts.push(...result.conflicts);
+      updated = result.doc;
+    } else {
+      updated = applyMergePatch(original, patch.patch);
+    }
+    yaml = conflicts.length > 0 ? taskYaml : patchYamlSource(taskYaml, updated);
+  }
+
+  if (conflicts.length > 0) throw new PatchConflictError(patch.format, conflicts);
+  validateResourceYaml(yaml);
+  return { yaml, notes };
+}
@@ -0,0 +1,291 @@
+// Reviewable forms of a proposal: a unified diff of the YAML text and an
+// RFC 6902 JSON Patch of the parsed resource, each op tagged with the rule
+// (or the LLM) that produced it.
+import crypto from "node:crypto";
+import path from "node:path";
+import YAML from "yaml";
+import { JsonPatchOperation } from "../types.js";
+
+export type OutputFormat = "yaml" | "diff" | "patch" | "json";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["yaml", "diff", "patch", "json"];
+
+// A resource as it stood after one source had its say, in application order.
+export type ProposalStage = {
+  source: string; // rule name, or "llm"
+  yaml: string;
+};
+
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+  if (value === undefined) return "yaml";
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new Error(`Unknown --format "${value}" (expected one of: ${OUTPUT_FORMATS.join(", ")})`);
+  }
+  return value as OutputFormat;
+}
+
+// sha256 of the Task text a proposal was made against; apply refuses a
+// proposal whose base hash no longer matches the file.
+export function baseHash(text: string): string {
+  return crypto.createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+// Leading line of a proposal diff. patch(1) skips text before the first
+// `---`, so the diff stays applicable as is.
+export const BASE_HASH_PREFIX = "# base-sha256: ";
+
+// ---- unified diff ----
+
+type LineOp = { type: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+// Longest common subsequence over the lines between the common prefix and suffix.
+function diffLines(a: string[], b: string[]): LineOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length, endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const n = endA - start, m = endB - start;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+        ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: LineOp[] = a.slice(0, start).map(line => ({ type: " ", line }));
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ type: " ", line: a[start + i] });
+      i++; j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      ops.push({ type: "-", line: a[start + i++] });
+    } else {
+      ops.push({ type: "+", line: b[start + j++] });
+    }
+  }
+  return [...ops, ...a.slice(endA).map(line => ({ type: " " as const, line }))];
+}
+
+function hunkRange(start: number, count: number): string {
+  // An empty range names the line before it, as diff(1) does
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+// `diff -u` style output; empty when the texts are equal.
+export function unifiedDiff(before: string, after: string, fromFile = "a", toFile = "b", context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const changed = ops.map((op, i) => (op.type === " " ? -1 : i)).filter(i => i >= 0);
+  if (changed.length === 0) return "";
+
+  // Group changes whose context windows touch into hunks
+  const groups: [number, number][] = [];
+  for (const i of changed) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= context * 2 + 1) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  const out = [`--- ${fromFile}`, `+++ ${toFile}`];
+  for (const [first, last] of groups) {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length - 1, last + context);
+    // Line numbers where the hunk starts on each side
+    let oldLine = 1, newLine = 1;
+    for (const op of ops.slice(0, from)) {
+      if (op.type !== "+") oldLine++;
+      if (op.type !== "-") newLine++;
+    }
+    const hunk = ops.slice(from, to + 1);
+    const oldCount = hunk.filter(op => op.type !== "+").length;
+    const newCount = hunk.filter(op => op.type !== "-").length;
+    out.push(`@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`);
+    for (const op of hunk) out.push(op.type + op.line);
+  }
+  return out.join("\n") + "\n";
+}
+
+const ANSI = { red: "\x1b[31m", green: "\x1b[32m", cyan: "\x1b[36m", bold: "\x1b[1m", reset: "\x1b[0m" };
+
+export function colorizeDiff(diff: string): string {
+  return diff.split("\n").map(line => {
+    if (line.startsWith("+++") || line.startsWith("---")) return ANSI.bold + line + ANSI.reset;
+    if (line.startsWith("@@")) return ANSI.cyan + line + ANSI.reset;
+    if (line.startsWith("+")) return ANSI.green + line + ANSI.reset;
+    if (line.startsWith("-")) return ANSI.red + line + ANSI.reset;
+    return line;
+  }).join("\n");
+}
+
+// Color only for a terminal, and never when NO_COLOR is set.
+export function useColor(stream: NodeJS.WriteStream): boolean {
+  return !!stream.isTTY && !process.env.NO_COLOR;
+}
+
+// ---- JSON Patch ----
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+// Named items (params, steps, env, ...) are matched by name, so an edit to
+// one shows up as an edit rather than a remove and an add.
+function itemKey(v: unknown): string {
+  return isObject(v) && typeof v.name === "string" ? `name:${v.name}` : `value:${JSON.stringify(v)}`;
+}
+
+function diffArray(a: unknown[], b: unknown[], path: string, ops: JsonPatchOperation[]) {
+  const ka = a.map(itemKey), kb = b.map(itemKey);
+  const n = a.length, m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = ka[i] === kb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  // `index` tracks the position in the array as patched so far
+  let i = 0, j = 0, index = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && ka[i] === kb[j]) {
+      diffValue(a[i++], b[j++], `${path}/${index++}`, ops);
+    } else if (i < n && j < m && !ka[i].startsWith("name:") && !kb[j].startsWith("name:") &&
+               lcs[i + 1][j + 1] === lcs[i][j]) {
+      // Unnamed values changed in place: one replace instead of remove + add
+      ops.push({ op: "replace", path: `${path}/${index++}`, value: b[j++] });
+      i++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ op: "remove", path: `${path}/${index}` });
+      i++;
+    } else {
+      ops.push({ op: "add", path: `${path}/${index++}`, value: b[j++] });
+    }
+  }
+}
+
+function diffValue(a: unknown, b: unknown, path: string, ops: JsonPatchOperation[]) {
+  if (equal(a, b)) return;
+  if (isObject(a) && isObject(b)) {
+    for (const key of Object.keys(a)) {
+      if (!(key in b)) ops.push({ op: "remove", path: `${path}/${escapePointer(key)}` });
+    }
+    for (const [key, value] of Object.entries(b)) {
+      const child = `${path}/${escapePointer(key)}`;
+      if (key in a) diffValue(a[key], value, child, ops);
+      else ops.push({ op: "add", path: child, value });
+    }
+    return;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    diffArray(a, b, path, ops);
+    return;
+  }
+  ops.push({ op: "replace", path, value: b });
+}
+
+export function jsonPatch(before: unknown, after: unknown): JsonPatchOperation[] {
+  const ops: JsonPatchOperation[] = [];
+  diffValue(before, after, "", ops);
+  return ops;
+}
+
+function valueAt(doc: unknown, pointer: string): { found: boolean; value?: unknown } {
+  let node: any = doc;
+  for (const raw of pointer.split("/").slice(1)) {
+    const key = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (node === null || typeof node !== "object" || !(key in node)) return { found: false };
+    node = node[key];
+  }
+  return { found: true, value: node };
+}
+
+// Tags each op with the first stage whose output already had the final value
+// at that path (or, for a remove, no longer had the original one). An added
+// object or list that several stages built up is split: the first stage's
+// version is added, then the later additions are patched onto it. Ops no
+// stage accounts for get `fallback`.
+export function attributePatch(ops: JsonPatchOperation[], original: unknown, stages: { source: string; doc: unknown }[], fallback: string): JsonPatchOperation[] {
+  return ops.flatMap(op => attributeOp(op, original, stages, fallback));
+}
+
+function attributeOp(op: JsonPatchOperation, original: unknown, stages: { source: string; doc: unknown }[], fallback: string): JsonPatchOperation[] {
+  for (const [i, stage] of stages.entries()) {
+    const at = valueAt(stage.doc, op.path);
+    if (op.op === "remove") {
+      if (!at.found || !equal(at.value, valueAt(original, op.path).value)) return [{ ...op, source: stage.source }];
+      continue;
+    }
+    if (!at.found) continue;
+    if (equal(at.value, op.value)) return [{ ...op, source: stage.source }];
+    const partial = op.op === "add" && (isObject(at.value) || Array.isArray(at.value)) &&
+      (isObject(op.value) || Array.isArray(op.value)) && Array.isArray(at.value) === Array.isArray(op.value);
+    if (partial) {
+      const rest = jsonPatch(at.value, op.value).map(o => ({ ...o, path: op.path + o.path }));
+      return [{ ...op, value: at.value, source: stage.source }, ...rest.flatMap(o => attributeOp(o, original, stages.slice(i + 1), fallback))];
+    }
+  }
+  return [{ ...op, source: fallback }];
+}
+
+// "a/<path>" wants a path relative to where the diff is applied: relative to
+// cwd, or just the base name for a file outside it.
+function diffPath(fileName: string): string {
+  let rel = path.relative(process.cwd(), path.resolve(fileName));
+  if (rel === "" || rel.startsWith("..") || path.isAbsolute(rel)) rel = path.basename(fileName);
+  return rel.split(path.sep).join("/");
+}
+
+// The diff and the source-tagged patch from the original YAML to the final
+// one, plus the hash of the original they apply to.
+export function describeChanges(originalYaml: string, updatedYaml: string, stages: ProposalStage[], fallback: string, fileName = "task.yaml"): { diff: string; patch: JsonPatchOperation[]; baseHash: string } {
+  fileName = diffPath(fileName);
+  const original = YAML.parse(originalYaml);
+  const updated = YAML.parse(updatedYaml);
+  const ops = jsonPatch(original, updated);
+  const parsed = stages.map(s => ({ source: s.source, doc: YAML.parse(s.yaml) }));
+  const hash = baseHash(originalYaml);
+  const diff = unifiedDiff(originalYaml, updatedYaml, `a/${fileName}`, `b/${fileName}`);
+  return {
+    diff: diff && `${BASE_HASH_PREFIX}${hash}\n${diff}`,
+    patch: attributePatch(ops, original, parsed, fallback),
+    baseHash: hash
+  };
+}
+
+export type RenderableProposal = {
+  updatedYaml: string;
+  baseHash?: string;
+  diff: string;
+  patch: JsonPatchOperation[];
+  notes?: string[];
+  [field: string]: unknown;
+};
+
+// What --format prints: the YAML, the diff, the patch, or all of it as JSON.
+export function renderProposal(format: OutputFormat, proposal: RenderableProposal): string {
+  switch (format) {
+    case "yaml": return proposal.updatedYaml;
+    case "diff": return proposal.diff;
+    // The hash travels with the ops, so apply can check the Task is unchanged
+    case "patch": return JSON.stringify({ baseHash: proposal.baseHash, patch: proposal.patch }, null, 2) + "\n";
+    case "json": return JSON.stringify(proposal, null, 2) + "\n";
+  }
+}
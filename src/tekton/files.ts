@@ -0,0 +1,129 @@
+// Finding the YAML files batch mode and param propagation work on, and
+// splitting multi-document files so each document can be updated on its own
+// while the others are written back byte for byte.
+import fs from "node:fs";
+import path from "node:path";
+
+export type FileFilter = {
+  include?: string[]; // globs relative to the scanned directory; default: DEFAULT_INCLUDE
+  exclude?: string[];
+};
+
+export const DEFAULT_INCLUDE = ["**/*.yaml", "**/*.yml"];
+
+// "a/*.yaml,{b,c}/**" -> ["a/*.yaml", "{b,c}/**"]: commas inside braces belong to the glob.
+export function splitGlobList(value: string): string[] {
+  const out: string[] = [];
+  let depth = 0, current = "";
+  for (const ch of value) {
+    if (ch === "{") depth++;
+    if (ch === "}") depth = Math.max(0, depth - 1);
+    if (ch === "," && depth === 0) {
+      out.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  out.push(current);
+  return out.map(g => g.trim()).filter(Boolean);
+}
+
+// `**` spans directories, `*` and `?` stay within one, `{a,b}` is either
+// alternative and `[...]` a character class. As in .gitignore, a glob without
+// a slash matches the file name at any depth.
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        re += "(?:.*/)?";
+      } else {
+        re += ".*";
+      }
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else if (ch === "{") {
+      braces++;
+      re += "(?:";
+    } else if (ch === "}" && braces > 0) {
+      braces--;
+      re += ")";
+    } else if (ch === "," && braces > 0) {
+      re += "|";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        re += "\\[";
+        continue;
+      }
+      const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+      re += `[${body}]`;
+      i = end;
+    } else {
+      re += ch.replace(/[.+^$()|\\\]]/g, "\\$&");
+    }
+  }
+  if (braces > 0) throw new Error(`Unbalanced "{" in glob ${glob}`);
+  return new RegExp(`^${glob.includes("/") ? "" : "(?:.*/)?"}${re}$`);
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join("/");
+}
+
+// Every YAML file under `dir` (sorted) whose path relative to `dir` matches
+// an include glob and no exclude glob. Directories in `skip` are not entered,
+// e.g. an output directory inside the scanned tree.
+export function findYamlFiles(dir: string, filter: FileFilter = {}, skip: string[] = []): string[] {
+  const include = (filter.include?.length ? filter.include : DEFAULT_INCLUDE).map(globToRegExp);
+  const exclude = (filter.exclude || []).map(globToRegExp);
+  const skipped = new Set(skip.map(d => path.resolve(d)));
+  const out: string[] = [];
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!skipped.has(path.resolve(full))) walk(full);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+      const rel = toPosix(path.relative(dir, full));
+      if (include.some(re => re.test(rel)) && !exclude.some(re => re.test(rel))) out.push(full);
+    }
+  };
+  walk(dir);
+  return out.sort();
+}
+
+// One document of a YAML stream: the `---` line that opened it ("" for the
+// first) and its text up to the next one.
+export type YamlDocumentSource = {
+  index: number;
+  separator: string;
+  text: string;
+};
+
+// Splits on `---` lines (optionally followed by a comment). Content on the
+// marker line itself (`--- !tag`, `--- |`) is not split on.
+export function splitYamlDocuments(source: string): YamlDocumentSource[] {
+  const docs: YamlDocumentSource[] = [{ index: 0, separator: "", text: "" }];
+  for (const line of source.split(/(?<=\n)/)) {
+    if (/^---[ \t]*(?:#.*)?\r?\n?$/.test(line)) {
+      docs.push({ index: docs.length, separator: line, text: "" });
+    } else {
+      docs[docs.length - 1].text += line;
+    }
+  }
+  return docs;
+}
+
+export function joinYamlDocuments(docs: YamlDocumentSource[]): string {
+  return docs.map(d => d.separator + d.text).join("");
+}
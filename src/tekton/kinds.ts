@@ -0,0 +1,537 @@
+// Per-kind rule application: the same Jumpstarter requirement (e.g., "this
+// Task needs param X") lands in a different place for each Tekton kind.
+import { JumpstarterChange } from "../types.js";
+
+export type TektonKind = "Task" | "Pipeline" | "TaskRun" | "PipelineRun" | "StepAction";
+
+export const SUPPORTED_KINDS: TektonKind[] = ["Task", "Pipeline", "TaskRun", "PipelineRun", "StepAction"];
+
+export function detectKind(obj: any): TektonKind | undefined {
+  const kind = obj?.kind;
+  return SUPPORTED_KINDS.includes(kind) ? kind : undefined;
+}
+
+export type ParamRequirement = {
+  name: string;
+  type?: "string" | "array" | "object"; // default: string
+  description?: string;
+  properties?: Record<string, { type: string }>; // object params
+  default?: unknown;
+};
+
+export type ResultRequirement = {
+  name: string;
+  description?: string;
+};
+
+// Without `step`, env vars and mounts go on stepTemplate so every step gets them.
+export type EnvRequirement = {
+  name: string;
+  value?: string;
+  valueFrom?: Record<string, unknown>;
+  step?: string;
+};
+
+export type VolumeRequirement = {
+  name: string;
+  [source: string]: unknown; // emptyDir, hostPath, secret, configMap, ...
+};
+
+export type VolumeMountRequirement = {
+  name: string;
+  mountPath: string;
+  readOnly?: boolean;
+  step?: string;
+};
+
+export type AnnotationRequirement = {
+  key: string;
+  value: string;
+};
+
+export type WorkspaceRequirement = {
+  name: string;
+  description?: string;
+  mountPath?: string;
+  readOnly?: boolean;
+  optional?: boolean;
+};
+
+// How a step consumes a param, so declaring it is not the end of it. Exactly
+// one of env (an env var set to the param), args (appended to the step's
+// args) or script (a line appended to the step's script) is set; args and
+// script spell out the $(params.<param>) reference themselves. The step is
+// `step`, else every step whose name, image or script matches `stepMatch`;
+// env without either goes on stepTemplate, args/script need a lone step.
+// Steps matching `skipMatch` are left alone (e.g. ones that already push).
+export type ParamUsageRequirement = {
+  param: string;
+  env?: string;
+  args?: string[];
+  script?: string;
+  step?: string;
+  stepMatch?: string;
+  skipMatch?: string;
+};
+
+// Replaces `before`, which must occur exactly once in the named step's
+// script, with `after`. Rule packs cannot ask for this; LLM edits can (see
+// llm/edits.ts).
+export type ScriptEditRequirement = {
+  step: string;
+  before: string;
+  after: string;
+};
+
+// What a rule asks of a resource; each kind decides where that goes.
+export type RuleRequirement = {
+  params?: ParamRequirement[];
+  results?: ResultRequirement[];
+  env?: EnvRequirement[];
+  volumes?: VolumeRequirement[];
+  volumeMounts?: VolumeMountRequirement[];
+  annotations?: AnnotationRequirement[];
+  workspaces?: WorkspaceRequirement[];
+  usages?: ParamUsageRequirement[];
+  scriptEdits?: ScriptEditRequirement[];
+  // Container settings every step should get, e.g. { securityContext: { privileged: true } }
+  stepTemplate?: Record<string, Record<string, unknown>>;
+};
+
+// A requirement that could not be applied at all, by the field at fault
+// ("step", "before", "after"); it is also among the notes.
+export type SkippedRequirement = {
+  field: string;
+  message: string;
+};
+
+export type KindApplyResult = {
+  changed: boolean;
+  notes: string[];
+  skipped?: SkippedRequirement[];
+};
+
+function ensureNamed<T extends { name: string }>(list: any[], item: T): boolean {
+  if (list.some(x => x?.name === item.name)) return false;
+  list.push(item);
+  return true;
+}
+
+function withoutStep<T extends { step?: string }>(r: T): Omit<T, "step"> {
+  const { step: _step, ...rest } = r;
+  return rest;
+}
+
+function paramDeclaration(p: ParamRequirement) {
+  const decl: { name: string; [key: string]: unknown } = { name: p.name, type: p.type || "string" };
+  if (p.description) decl.description = p.description;
+  if (p.properties) decl.properties = p.properties;
+  if (p.default !== undefined) decl.default = p.default;
+  return decl;
+}
+
+// Value pinned for a param by the changes themselves (suggestedParams).
+function suggestedValue(changes: JumpstarterChange[], name: string): unknown {
+  for (const c of changes) {
+    const v = c.suggestedParams?.[name];
+    if (v !== undefined) return v;
+  }
+  return undefined;
+}
+
+function asParamValue(v: unknown): unknown {
+  if (typeof v === "string" || Array.isArray(v)) return v;
+  if (v && typeof v === "object") return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, String(x)]));
+  return String(v);
+}
+
+// Collects what a requirement did; note() explains a no-op without counting as a change.
+class ApplyLog {
+  changed = false;
+  notes: string[] = [];
+  skipped: SkippedRequirement[] = [];
+
+  change(note: string) {
+    this.changed = true;
+    this.notes.push(note);
+  }
+
+  note(note: string) {
+    this.notes.push(note);
+  }
+
+  // "Skipped <what>: <reason>"
+  skip(field: string, what: string, reason: string) {
+    this.skipped.push({ field, message: reason });
+    this.notes.push(`Skipped ${what}: ${reason}`);
+  }
+}
+
+// Containers an env var or mount is meant for: the named step, or stepTemplate.
+function targetContainer(spec: any, step: string | undefined, where: string, log: ApplyLog): [any, string] | undefined {
+  if (!step) {
+    spec.stepTemplate = spec.stepTemplate || {};
+    return [spec.stepTemplate, "stepTemplate"];
+  }
+  const found = (spec.steps || []).find((s: any) => s?.name === step);
+  if (!found) {
+    log.skip("step", `env/volumeMounts for step ${step}`, `no such step${where}`);
+    return undefined;
+  }
+  return [found, `steps[${step}]`];
+}
+
+function applyContainerSettings(container: any, label: string, req: RuleRequirement, step: string | undefined, where: string, log: ApplyLog) {
+  for (const e of (req.env || []).filter(e => e.step === step)) {
+    container.env = container.env || [];
+    if (ensureNamed(container.env, withoutStep(e))) log.change(`Added env ${e.name} to ${label}${where}`);
+  }
+  for (const m of (req.volumeMounts || []).filter(m => m.step === step)) {
+    container.volumeMounts = container.volumeMounts || [];
+    // Kubernetes rejects two mounts at one path, so mountPath is the identity here
+    if ((container.volumeMounts as any[]).some(x => x?.mountPath === m.mountPath)) continue;
+    container.volumeMounts.push(withoutStep(m));
+    log.change(`Mounted volume ${m.name} at ${m.mountPath} in ${label}${where}`);
+  }
+}
+
+// Merges settings key by key; a key already set to something else is kept and
+// reported, and so is a step that overrides what stepTemplate now says.
+function applyStepTemplate(container: any, label: string, settings: RuleRequirement["stepTemplate"], steps: any[], where: string, log: ApplyLog) {
+  for (const [field, values] of Object.entries(settings || {})) {
+    for (const [key, value] of Object.entries(values)) {
+      const current = container[field]?.[key];
+      if (JSON.stringify(current) === JSON.stringify(value)) continue;
+      if (current !== undefined) {
+        log.note(`Skipped ${label}.${field}.${key}: already set to ${JSON.stringify(current)}${where}`);
+        continue;
+      }
+      container[field] = { ...(container[field] || {}), [key]: value };
+      log.change(`Set ${label}.${field}.${key}=${JSON.stringify(value)}${where}`);
+      for (const step of steps) {
+        const own = step?.[field]?.[key];
+        if (own !== undefined && JSON.stringify(own) !== JSON.stringify(value)) {
+          log.note(`steps[${step.name}].${field}.${key}=${JSON.stringify(own)} overrides ${label}${where}`);
+        }
+      }
+    }
+  }
+}
+
+const PARAM_REFERENCE = /\$\(params\.([A-Za-z0-9_-]+)/g;
+
+function usageKind(u: ParamUsageRequirement): "env" | "args" | "script" {
+  return u.env !== undefined ? "env" : u.args !== undefined ? "args" : "script";
+}
+
+function describeUsage(u: ParamUsageRequirement): string {
+  switch (usageKind(u)) {
+    case "env": return `env ${u.env}`;
+    case "args": return `args ${JSON.stringify(u.args)}`;
+    default: return "script line";
+  }
+}
+
+function matchesStep(step: any, pattern: RegExp): boolean {
+  return [step?.name, step?.image, step?.script].some(v => typeof v === "string" && pattern.test(v));
+}
+
+// Steps a usage is meant for, less those matching skipMatch; undefined means stepTemplate.
+function usageTargets(spec: any, u: ParamUsageRequirement, where: string, log: ApplyLog): [any, string][] | undefined {
+  const targets = matchedUsageTargets(spec, u, where, log);
+  if (!targets || !u.skipMatch) return targets;
+  const skip = new RegExp(u.skipMatch, "i");
+  return targets.filter(([step, label]) => {
+    if (!matchesStep(step, skip)) return true;
+    log.note(`Skipped ${describeUsage(u)} for param ${u.param}: ${label} matches /${u.skipMatch}/${where}`);
+    return false;
+  });
+}
+
+function matchedUsageTargets(spec: any, u: ParamUsageRequirement, where: string, log: ApplyLog): [any, string][] | undefined {
+  const steps: any[] = spec.steps || [];
+  const label = (s: any) => `steps[${s.name}]`;
+  if (u.step) {
+    const found = steps.find(s => s?.name === u.step);
+    if (!found) log.note(`Skipped ${describeUsage(u)} for param ${u.param}: no step ${u.step}${where}`);
+    return found ? [[found, label(found)]] : [];
+  }
+  if (u.stepMatch) {
+    const pattern = new RegExp(u.stepMatch, "i");
+    const found = steps.filter(s => matchesStep(s, pattern));
+    if (found.length === 0) log.note(`Skipped ${describeUsage(u)} for param ${u.param}: no step matches /${u.stepMatch}/${where}`);
+    return found.map(s => [s, label(s)]);
+  }
+  if (usageKind(u) === "env") return undefined;
+  if (steps.length !== 1) {
+    log.note(`Skipped ${describeUsage(u)} for param ${u.param}: ${steps.length} steps and no step named${where}`);
+    return [];
+  }
+  return [[steps[0], label(steps[0])]];
+}
+
+function referencesParam(value: unknown, param: string): boolean {
+  return JSON.stringify(value ?? "").includes(`$(params.${param}`);
+}
+
+function applyUsageToContainer(container: any, label: string, u: ParamUsageRequirement, type: string, where: string, log: ApplyLog) {
+  switch (usageKind(u)) {
+    case "env":
+      container.env = container.env || [];
+      if (ensureNamed(container.env, { name: u.env!, value: `$(params.${u.param})` })) {
+        log.change(`Added env ${u.env}=$(params.${u.param}) to ${label}${where}`);
+      }
+      break;
+    case "args":
+      if (typeof container.script === "string") {
+        log.note(`Skipped args for param ${u.param}: ${label} runs a script${where}`);
+      } else if (!referencesParam(container.args, u.param)) {
+        container.args = [...(container.args || []), ...u.args!];
+        log.change(`Appended ${JSON.stringify(u.args)} to ${label}.args${where}`);
+      }
+      break;
+    case "script":
+      if (typeof container.script !== "string") {
+        log.note(`Skipped script line for param ${u.param}: ${label} has no script${where}`);
+      } else if (type === "array") {
+        log.note(`Skipped script line for array param ${u.param}: pass it through args instead${where}`);
+      } else if (!referencesParam(container.script, u.param)) {
+        const script: string = container.script;
+        container.script = (script === "" || script.endsWith("\n") ? script : script + "\n") + u.script!.replace(/\n?$/, "\n");
+        log.change(`Appended a line using $(params.${u.param}) to ${label}.script${where}`);
+      }
+      break;
+  }
+}
+
+// Wires declared params into the steps; a usage whose param (or any other
+// param it references) is not declared would leave a dangling reference, so
+// it is skipped instead.
+function applyParamUsages(spec: any, usages: ParamUsageRequirement[], where: string, log: ApplyLog, self?: [any, string]) {
+  const declared = new Map<string, any>((spec.params || []).map((p: any) => [p?.name, p]));
+  for (const u of usages) {
+    const text = [u.args, u.script].flat().filter(Boolean).join(" ");
+    const missing = [u.param, ...[...text.matchAll(PARAM_REFERENCE)].map(m => m[1])].filter(n => !declared.has(n));
+    if (missing.length > 0) {
+      log.note(`Skipped ${describeUsage(u)} for param ${u.param}: ${[...new Set(missing)].join(", ")} not declared${where}`);
+      continue;
+    }
+    const type = declared.get(u.param).type || "string";
+    if (usageKind(u) === "env" && type !== "string") {
+      log.note(`Skipped env ${u.env} for ${type} param ${u.param}: env values must be strings${where}`);
+      continue;
+    }
+    if (self) {
+      applyUsageToContainer(self[0], self[1], u, type, where, log);
+      continue;
+    }
+    const targets = usageTargets(spec, u, where, log);
+    if (!targets) {
+      spec.stepTemplate = spec.stepTemplate || {};
+      applyUsageToContainer(spec.stepTemplate, "stepTemplate", u, type, where, log);
+      continue;
+    }
+    for (const [container, label] of targets) applyUsageToContainer(container, label, u, type, where, log);
+  }
+}
+
+// A replacement that references an undeclared param, or an anchor that is
+// missing or ambiguous, is skipped rather than guessed at.
+function applyScriptEdits(spec: any, edits: ScriptEditRequirement[], where: string, log: ApplyLog) {
+  const declared = new Set((spec.params || []).map((p: any) => p?.name));
+  for (const e of edits) {
+    const step = (spec.steps || []).find((s: any) => s?.name === e.step);
+    const label = `steps[${e.step}].script`;
+    if (!step) {
+      log.skip("step", `script edit for step ${e.step}`, `no such step${where}`);
+      continue;
+    }
+    if (typeof step.script !== "string") {
+      log.skip("step", `script edit for ${label}`, `the step has no script${where}`);
+      continue;
+    }
+    const missing = [...e.after.matchAll(PARAM_REFERENCE)].map(m => m[1]).filter(n => !declared.has(n));
+    if (missing.length > 0) {
+      log.skip("after", `script edit for ${label}`, `${[...new Set(missing)].join(", ")} not declared${where}`);
+      continue;
+    }
+    const count = step.script.split(e.before).length - 1;
+    if (count !== 1) {
+      log.skip("before", `script edit for ${label}`, `the text to replace occurs ${count} times, not once${where}`);
+      continue;
+    }
+    if (e.before === e.after) continue;
+    step.script = step.script.replace(e.before, () => e.after);
+    log.change(`Edited ${label}${where}`);
+  }
+}
+
+// Task and StepAction: declare params/results directly on spec.
+function applyToTaskSpec(spec: any, req: RuleRequirement, where: string, log: ApplyLog) {
+  for (const p of req.params || []) {
+    spec.params = spec.params || [];
+    if (ensureNamed(spec.params, paramDeclaration(p))) log.change(`Added param ${p.name}${where}`);
+  }
+  for (const r of req.results || []) {
+    spec.results = spec.results || [];
+    const decl: { name: string; [key: string]: unknown } = { name: r.name };
+    if (r.description) decl.description = r.description;
+    if (ensureNamed(spec.results, decl)) log.change(`Added result ${r.name}${where}`);
+  }
+
+  const steps = new Set([...(req.env || []), ...(req.volumeMounts || [])].map(r => r.step));
+  for (const step of steps) {
+    const target = targetContainer(spec, step, where, log);
+    if (target) applyContainerSettings(target[0], target[1], req, step, where, log);
+  }
+  if (req.stepTemplate) {
+    spec.stepTemplate = spec.stepTemplate || {};
+    applyStepTemplate(spec.stepTemplate, "stepTemplate", req.stepTemplate, spec.steps || [], where, log);
+  }
+  if (req.usages?.length) applyParamUsages(spec, req.usages, where, log);
+  if (req.scriptEdits?.length) applyScriptEdits(spec, req.scriptEdits, where, log);
+  if (spec.stepTemplate && Object.keys(spec.stepTemplate).length === 0) delete spec.stepTemplate;
+
+  for (const v of req.volumes || []) {
+    spec.volumes = spec.volumes || [];
+    if (ensureNamed(spec.volumes, v)) log.change(`Added volume ${v.name}${where}`);
+  }
+  for (const w of req.workspaces || []) {
+    spec.workspaces = spec.workspaces || [];
+    if (ensureNamed(spec.workspaces, { ...w })) log.change(`Declared workspace ${w.name}${where}`);
+  }
+}
+
+// A StepAction is a single step: env and mounts live on spec itself, and
+// volumes/workspaces belong to the Task that references it.
+function applyToStepActionSpec(spec: any, req: RuleRequirement, log: ApplyLog) {
+  const where = " to StepAction";
+  applyToTaskSpec(spec, { params: req.params, results: req.results }, where, log);
+  const untargeted = {
+    env: (req.env || []).filter(e => !e.step),
+    volumeMounts: (req.volumeMounts || []).filter(m => !m.step)
+  };
+  applyContainerSettings(spec, "spec", untargeted, undefined, where, log);
+  applyStepTemplate(spec, "spec", req.stepTemplate, [], where, log);
+  const usages = (req.usages || []).filter(u => !u.step);
+  if (usages.length) applyParamUsages(spec, usages, where, log, [spec, "spec"]);
+  if ([...(req.env || []), ...(req.volumeMounts || []), ...(req.usages || []), ...(req.scriptEdits || [])].some(r => r.step)) {
+    log.skip("step", "env/volumeMounts/usages/script edits for named steps", "a StepAction has no steps");
+  }
+  if (req.volumes?.length || req.workspaces?.length) {
+    log.note("Skipped volumes/workspaces: declare them on the Task that uses the StepAction");
+  }
+}
+
+// Pipeline: embedded taskSpecs get the Task treatment; params and workspaces
+// are then declared on the Pipeline and bound into every pipeline task that declares them.
+function applyToPipelineSpec(spec: any, req: RuleRequirement, where: string, log: ApplyLog) {
+  const pipelineTasks: any[] = [...(spec.tasks || []), ...(spec.finally || [])];
+
+  for (const pt of pipelineTasks) {
+    if (pt.taskSpec) applyToTaskSpec(pt.taskSpec, req, ` to tasks[${pt.name}].taskSpec${where}`, log);
+  }
+
+  for (const p of req.params || []) {
+    const consumers = pipelineTasks.filter(pt => (pt.taskSpec?.params || []).some((x: any) => x.name === p.name));
+    if (consumers.length === 0) continue;
+    spec.params = spec.params || [];
+    if (ensureNamed(spec.params, paramDeclaration(p))) log.change(`Declared Pipeline param ${p.name}${where}`);
+    for (const pt of consumers) {
+      pt.params = pt.params || [];
+      if (ensureNamed(pt.params, { name: p.name, value: `$(params.${p.name})` })) {
+        log.change(`Bound param ${p.name} in tasks[${pt.name}].params${where}`);
+      }
+    }
+  }
+
+  for (const w of req.workspaces || []) {
+    const consumers = pipelineTasks.filter(pt => (pt.taskSpec?.workspaces || []).some((x: any) => x.name === w.name));
+    if (consumers.length === 0) continue;
+    spec.workspaces = spec.workspaces || [];
+    const decl: { name: string; [key: string]: unknown } = { name: w.name };
+    if (w.description) decl.description = w.description;
+    if (w.optional !== undefined) decl.optional = w.optional;
+    if (ensureNamed(spec.workspaces, decl)) log.change(`Declared Pipeline workspace ${w.name}${where}`);
+    for (const pt of consumers) {
+      pt.workspaces = pt.workspaces || [];
+      if (ensureNamed(pt.workspaces, { name: w.name, workspace: w.name })) {
+        log.change(`Bound workspace ${w.name} in tasks[${pt.name}].workspaces${where}`);
+      }
+    }
+  }
+
+  for (const r of req.results || []) {
+    const producers = pipelineTasks.filter(pt => (pt.taskSpec?.results || []).some((x: any) => x.name === r.name));
+    // Only surface a Pipeline result when its source is unambiguous
+    if (producers.length !== 1) continue;
+    spec.results = spec.results || [];
+    const decl: { name: string; [key: string]: unknown } = { name: r.name };
+    if (r.description) decl.description = r.description;
+    decl.value = `$(tasks.${producers[0].name}.results.${r.name})`;
+    if (ensureNamed(spec.results, decl)) {
+      log.change(`Exposed Pipeline result ${r.name} from tasks[${producers[0].name}]${where}`);
+    }
+  }
+}
+
+// Annotations are metadata, so they apply the same way to every kind.
+function applyAnnotations(obj: any, req: RuleRequirement, kind: TektonKind, log: ApplyLog) {
+  for (const a of req.annotations || []) {
+    obj.metadata = obj.metadata || {};
+    const current = obj.metadata.annotations?.[a.key];
+    if (current === a.value) continue;
+    if (current !== undefined) {
+      log.note(`Skipped annotation ${a.key}: ${kind} already sets it to ${JSON.stringify(current)}`);
+      continue;
+    }
+    obj.metadata.annotations = { ...(obj.metadata.annotations || {}), [a.key]: a.value };
+    log.change(`Added annotation ${a.key}=${a.value}`);
+  }
+}
+
+// TaskRun/PipelineRun: only pin values the change actually supplies.
+function pinRunParams(spec: any, req: RuleRequirement, changes: JumpstarterChange[], kind: string, log: ApplyLog) {
+  for (const p of req.params || []) {
+    const value = suggestedValue(changes, p.name);
+    if (value === undefined) continue;
+    spec.params = spec.params || [];
+    if (ensureNamed(spec.params, { name: p.name, value: asParamValue(value) })) {
+      log.change(`Set ${kind} param ${p.name}=${JSON.stringify(value)}`);
+    }
+  }
+}
+
+export function applyRequirementToKind(
+  kind: TektonKind,
+  obj: any,
+  req: RuleRequirement,
+  changes: JumpstarterChange[]
+): KindApplyResult {
+  obj.spec = obj.spec || {};
+  const spec = obj.spec;
+  const log = new ApplyLog();
+
+  switch (kind) {
+    case "Task":
+      applyToTaskSpec(spec, req, "", log);
+      break;
+    case "StepAction":
+      applyToStepActionSpec(spec, req, log);
+      break;
+    case "Pipeline":
+      applyToPipelineSpec(spec, req, "", log);
+      break;
+    case "TaskRun":
+      if (spec.taskSpec) applyToTaskSpec(spec.taskSpec, req, " to TaskRun taskSpec", log);
+      pinRunParams(spec, req, changes, "TaskRun", log);
+      break;
+    case "PipelineRun":
+      if (spec.pipelineSpec) applyToPipelineSpec(spec.pipelineSpec, req, " (PipelineRun pipelineSpec)", log);
+      pinRunParams(spec, req, changes, "PipelineRun", log);
+      break;
+  }
+  applyAnnotations(obj, req, kind, log);
+
+  return { changed: log.changed, notes: log.notes, skipped: log.skipped };
+}
@@ -0,0 +1,236 @@
+// Semantic Task linter: checks $(params.*), $(results.*), $(workspaces.*) and
+// $(context.*) substitutions against what the Task actually declares.
+import YAML from "yaml";
+import { LintFinding, LintSeverity } from "../types.js";
+
+export type TaskReference = {
+  kind: "params" | "results" | "workspaces" | "context";
+  name: string;
+  key?: string;      // object param key, or workspace/result property (path, bound, ...)
+  expansion?: string; // "[*]" or "[0]" for array params
+  raw: string;
+  path: string;      // field path where the reference was found
+};
+
+const SUBSTITUTION = /\$\(((?:params|results|workspaces|context)\b[^()\s]*)\)/g;
+
+const CONTEXT_VARIABLES = new Set([
+  "context.taskRun.name",
+  "context.taskRun.namespace",
+  "context.taskRun.uid",
+  "context.task.name",
+  "context.task.retry-count"
+]);
+
+const WORKSPACE_PROPERTIES = new Set(["path", "bound", "claim", "volume"]);
+
+function parseReference(expr: string, path: string): TaskReference | undefined {
+  const raw = `$(${expr})`;
+  if (expr.startsWith("context.")) {
+    return { kind: "context", name: expr.slice("context.".length), raw, path };
+  }
+  const m = expr.match(/^(params|results|workspaces)(?:\.([A-Za-z0-9_-]+)|\[["']([^"']+)["']\])(\[\*\]|\[\d+\])?(?:\.([A-Za-z0-9_-]+)|\[["']([^"']+)["']\])?$/);
+  if (!m) return undefined;
+  return {
+    kind: m[1] as TaskReference["kind"],
+    name: m[2] ?? m[3],
+    expansion: m[4],
+    key: m[5] ?? m[6],
+    raw,
+    path
+  };
+}
+
+function walkStrings(node: unknown, path: string, visit: (value: string, path: string) => void) {
+  if (typeof node === "string") {
+    visit(node, path);
+  } else if (Array.isArray(node)) {
+    node.forEach((item, i) => walkStrings(item, `${path}[${i}]`, visit));
+  } else if (node && typeof node === "object") {
+    for (const [k, v] of Object.entries(node)) walkStrings(v, `${path}.${k}`, visit);
+  }
+}
+
+// Fields that consume substitutions: steps, stepTemplate, sidecars and volumes.
+function consumerFields(spec: any): [unknown, string][] {
+  return [
+    [spec.steps, "spec.steps"],
+    [spec.stepTemplate, "spec.stepTemplate"],
+    [spec.sidecars, "spec.sidecars"],
+    [spec.volumes, "spec.volumes"]
+  ];
+}
+
+export function collectReferences(task: any): TaskReference[] {
+  const refs: TaskReference[] = [];
+  const spec = task?.spec || {};
+  for (const [node, base] of consumerFields(spec)) {
+    walkStrings(node, base, (value, path) => {
+      for (const match of value.matchAll(SUBSTITUTION)) {
+        const ref = parseReference(match[1], path);
+        if (ref) refs.push(ref);
+        else refs.push({ kind: match[1].split(/[.[]/)[0] as TaskReference["kind"], name: "", raw: match[0], path });
+      }
+    });
+  }
+  return refs;
+}
+
+function collectLiteralPaths(spec: any, prefix: RegExp): Set<string> {
+  const found = new Set<string>();
+  for (const [node, base] of consumerFields(spec)) {
+    walkStrings(node, base, value => {
+      for (const m of value.matchAll(prefix)) found.add(m[1]);
+    });
+  }
+  return found;
+}
+
+function finding(rule: string, severity: LintSeverity, message: string, path: string): LintFinding {
+  return { rule, severity, message, path };
+}
+
+export function lintTask(task: any): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const spec = task?.spec || {};
+  const params = new Map<string, any>((spec.params || []).map((p: any) => [p.name, p]));
+  const results = new Set<string>((spec.results || []).map((r: any) => r.name));
+  const workspaces = new Set<string>((spec.workspaces || []).map((w: any) => w.name));
+  const refs = collectReferences(task);
+
+  const usedParams = new Set<string>();
+  const writtenResults = collectLiteralPaths(spec, /\/tekton\/results\/([A-Za-z0-9_.-]+)/g);
+  const usedWorkspaces = collectLiteralPaths(spec, /\/workspace\/([A-Za-z0-9_.-]+)/g);
+  for (const s of [...(spec.steps || []), ...(spec.sidecars || [])]) {
+    for (const w of s?.workspaces || []) usedWorkspaces.add(w.name);
+  }
+
+  for (const ref of refs) {
+    if (!ref.name) {
+      findings.push(finding("malformed-reference", "error", `Cannot parse substitution ${ref.raw}`, ref.path));
+      continue;
+    }
+    switch (ref.kind) {
+      case "params": {
+        const decl = params.get(ref.name);
+        if (!decl) {
+          findings.push(finding("undefined-param", "error", `${ref.raw} references undeclared param "${ref.name}"`, ref.path));
+          break;
+        }
+        usedParams.add(ref.name);
+        const type = decl.type || "string";
+        if (type === "object" && ref.key && !(decl.properties && ref.key in decl.properties)) {
+          findings.push(finding("undefined-param-key", "error", `${ref.raw} references key "${ref.key}" not declared in properties of object param "${ref.name}"`, ref.path));
+        }
+        if (type === "array" && ref.path.endsWith(".script")) {
+          findings.push(finding("array-param-in-script", "error", `Array param "${ref.name}" cannot be used in a script; pass it through args instead`, ref.path));
+        }
+        if (type === "string" && (ref.expansion || ref.key)) {
+          findings.push(finding("invalid-param-access", "error", `${ref.raw} indexes string param "${ref.name}"`, ref.path));
+        }
+        break;
+      }
+      case "results": {
+        if (!results.has(ref.name)) {
+          findings.push(finding("undefined-result", "error", `${ref.raw} references undeclared result "${ref.name}"`, ref.path));
+        } else if (ref.key !== "path") {
+          findings.push(finding("invalid-result-reference", "error", `Results can only be referenced as $(results.${ref.name}.path) inside a Task`, ref.path));
+        } else {
+          writtenResults.add(ref.name);
+        }
+        break;
+      }
+      case "workspaces": {
+        if (!workspaces.has(ref.name)) {
+          findings.push(finding("undefined-workspace", "error", `${ref.raw} references undeclared workspace "${ref.name}"`, ref.path));
+        } else if (!ref.key || !WORKSPACE_PROPERTIES.has(ref.key)) {
+          findings.push(finding("invalid-workspace-reference", "error", `${ref.raw} must use one of: ${[...WORKSPACE_PROPERTIES].join(", ")}`, ref.path));
+        } else {
+          usedWorkspaces.add(ref.name);
+        }
+        break;
+      }
+      case "context": {
+        if (!CONTEXT_VARIABLES.has(`context.${ref.name}`)) {
+          findings.push(finding("unknown-context", "error", `${ref.raw} is not a Task context variable`, ref.path));
+        }
+        break;
+      }
+    }
+  }
+
+  (spec.params || []).forEach((p: any, i: number) => {
+    if (!usedParams.has(p.name)) {
+      findings.push(finding("unused-param", "warning", `Param "${p.name}" is declared but never referenced`, `spec.params[${i}]`));
+    }
+  });
+  (spec.results || []).forEach((r: any, i: number) => {
+    if (!writtenResults.has(r.name)) {
+      findings.push(finding("unwritten-result", "warning", `Result "${r.name}" is declared but no step writes $(results.${r.name}.path)`, `spec.results[${i}]`));
+    }
+  });
+  (spec.workspaces || []).forEach((w: any, i: number) => {
+    if (!usedWorkspaces.has(w.name)) {
+      findings.push(finding("unused-workspace", "warning", `Workspace "${w.name}" is declared but never used`, `spec.workspaces[${i}]`));
+    }
+  });
+
+  // Shadowing: step env that silently overrides stepTemplate env, and step
+  // volumeMounts that land on a workspace mount path.
+  const templateEnv = new Set<string>((spec.stepTemplate?.env || []).map((e: any) => e.name));
+  const workspaceMounts = new Map<string, string>(
+    (spec.workspaces || []).map((w: any) => [w.mountPath || `/workspace/${w.name}`, w.name])
+  );
+  (spec.steps || []).forEach((s: any, i: number) => {
+    (s?.env || []).forEach((e: any, j: number) => {
+      if (templateEnv.has(e.name)) {
+        findings.push(finding("shadowed-env", "info", `Step "${s.name ?? i}" env "${e.name}" overrides the stepTemplate value`, `spec.steps[${i}].env[${j}]`));
+      }
+    });
+    (s?.volumeMounts || []).forEach((m: any, j: number) => {
+      const ws = workspaceMounts.get(m.mountPath);
+      if (ws) {
+        findings.push(finding("shadowed-mount", "warning", `Volume "${m.name}" is mounted over workspace "${ws}" at ${m.mountPath}`, `spec.steps[${i}].volumeMounts[${j}]`));
+      }
+    });
+  });
+
+  return findings;
+}
+
+export type ParamUsage = {
+  name: string;
+  referencedAt: string[]; // field paths; empty when nothing consumes the param
+};
+
+// Params `after` declares that `before` did not, with where each is referenced.
+export function addedParamUsage(before: any, after: any): ParamUsage[] {
+  const existing = new Set((before?.spec?.params || []).map((p: any) => p?.name));
+  const refs = collectReferences(after).filter(r => r.kind === "params");
+  return (after?.spec?.params || [])
+    .filter((p: any) => !existing.has(p?.name))
+    .map((p: any) => ({ name: p.name, referencedAt: [...new Set(refs.filter(r => r.name === p.name).map(r => r.path))] }));
+}
+
+export function lintTaskYaml(yamlStr: string): LintFinding[] {
+  return lintTask(YAML.parse(yamlStr));
+}
+
+// Findings present in `after` that were not already reported for `before`.
+export function newLintFindings(before: LintFinding[], after: LintFinding[]): LintFinding[] {
+  const key = (f: LintFinding) => `${f.rule}|${f.message}`;
+  const existing = new Set(before.map(key));
+  return after.filter(f => !existing.has(key(f)));
+}
+
+export function formatLintFindings(findings: LintFinding[]): string[] {
+  return findings.map(f => `[${f.severity}] ${f.path}: ${f.message} (${f.rule})`);
+}
+
+// A proposal that introduces lint errors the Task did not already have.
+export class LintError extends Error {
+  constructor(public readonly findings: LintFinding[]) {
+    super("Proposal introduces lint errors: " + formatLintFindings(findings).join("; "));
+    this.name = "LintError";
+  }
+}
@@ -0,0 +1,122 @@
+// Structural three-way merge of Tekton resources: base (original), rules
+// (deterministic rule output) and llm (model output). Lists of named items
+// are merged by name; anything both sides changed differently is a conflict.
+import { MergeConflict } from "../types.js";
+
+type Side = "rules" | "llm";
+
+const MISSING = Symbol("missing");
+type Value = unknown | typeof MISSING;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function equal(a: Value, b: Value): boolean {
+  if (a === b) return true;
+  if (a === MISSING || b === MISSING) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// params, results, steps, workspaces, volumes, env, ...: lists keyed by a
+// unique name. volumeMounts may repeat a name and are compared whole instead.
+function isNamedList(...lists: Value[]): boolean {
+  const present = lists.filter(l => l !== MISSING && l !== undefined);
+  return present.length > 0 && present.every(l =>
+    Array.isArray(l) &&
+    l.every(item => isObject(item) && typeof item.name === "string") &&
+    new Set(l.map(item => item.name)).size === l.length
+  );
+}
+
+function show(v: Value): unknown {
+  return v === MISSING ? undefined : v;
+}
+
+// Fields where a silent change breaks callers even if only one side made it.
+function isGuardedField(path: string): boolean {
+  return /^spec\.params\[[^\]]+\]\.type$/.test(path);
+}
+
+class Merger {
+  conflicts: MergeConflict[] = [];
+
+  private conflict(path: string, reason: MergeConflict["reason"], base: Value, rules: Value, llm: Value, resolution: MergeConflict["resolution"], note: string): Value {
+    this.conflicts.push({ path, reason, base: show(base), rules: show(rules), llm: show(llm), resolution, note });
+    return resolution === "base" ? base : resolution === "llm" ? llm : rules;
+  }
+
+  merge(path: string, base: Value, rules: Value, llm: Value): Value {
+    if (isGuardedField(path) && base !== MISSING && (!equal(base, rules) || !equal(base, llm))) {
+      const changedBy = !equal(base, rules) ? "rules" : "llm";
+      return this.conflict(path, "type-change", base, rules, llm, "base",
+        `Param type changed by ${changedBy} (${JSON.stringify(show(base))} -> ${JSON.stringify(show(changedBy === "rules" ? rules : llm))}); kept original type`);
+    }
+
+    // Descend into structure even when only one side changed it, so guarded
+    // fields below are still checked and siblings merge item by item
+    if (rules !== MISSING && llm !== MISSING) {
+      if (isNamedList(base, rules, llm)) {
+        return this.mergeNamedList(path, base as any[] | typeof MISSING, rules as any[], llm as any[]);
+      }
+      if (isObject(rules) && isObject(llm) && (base === MISSING || isObject(base))) {
+        return this.mergeObject(path, base as Record<string, unknown> | typeof MISSING, rules, llm);
+      }
+    }
+
+    if (equal(rules, llm)) return rules;
+    if (equal(base, rules)) return llm;
+    if (equal(base, llm)) return rules;
+
+    // Both sides changed this value in different ways
+    if (rules === MISSING || llm === MISSING) {
+      const deleted: Side = rules === MISSING ? "rules" : "llm";
+      const kept: Side = deleted === "rules" ? "llm" : "rules";
+      return this.conflict(path, "modify-delete", base, rules, llm, kept,
+        `Removed by ${deleted} but modified by ${kept}; kept the ${kept} version`);
+    }
+    return this.conflict(path, "both-modified", base, rules, llm, "rules",
+      `Rules and LLM changed this value differently; kept the rule output`);
+  }
+
+  private mergeObject(path: string, base: Record<string, unknown> | typeof MISSING, rules: Record<string, unknown>, llm: Record<string, unknown>) {
+    const b = base === MISSING ? {} : base;
+    // Base key order first, then keys added by rules, then by the LLM
+    const keys = [...new Set([...Object.keys(b), ...Object.keys(rules), ...Object.keys(llm)])];
+    const out: Record<string, unknown> = {};
+    for (const key of keys) {
+      const v = this.merge(
+        path ? `${path}.${key}` : key,
+        key in b ? b[key] : MISSING,
+        key in rules ? rules[key] : MISSING,
+        key in llm ? llm[key] : MISSING
+      );
+      if (v !== MISSING) out[key] = v;
+    }
+    return out;
+  }
+
+  private mergeNamedList(path: string, base: any[] | typeof MISSING, rules: any[], llm: any[]) {
+    const b = base === MISSING ? [] : base;
+    const byName = (list: any[]) => new Map(list.map(item => [item.name as string, item]));
+    const [bm, rm, lm] = [byName(b), byName(rules), byName(llm)];
+    const names = [...new Set([...bm.keys(), ...rm.keys(), ...lm.keys()])];
+    const out: unknown[] = [];
+    for (const name of names) {
+      const v = this.merge(
+        `${path}[${name}]`,
+        bm.has(name) ? bm.get(name) : MISSING,
+        rm.has(name) ? rm.get(name) : MISSING,
+        lm.has(name) ? lm.get(name) : MISSING
+      );
+      if (v !== MISSING) out.push(v);
+    }
+    return out;
+  }
+}
+
+export function threeWayMerge(base: unknown, rules: unknown, llm: unknown): { merged: unknown; conflicts: MergeConflict[] } {
+  const merger = new Merger();
+  const merged = merger.merge("", base, rules, llm);
+  return { merged: merged === MISSING ? undefined : merged, conflicts: merger.conflicts };
+}
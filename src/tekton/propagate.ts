@@ -0,0 +1,102 @@
+// Propagates params added to a Task into the Pipelines that reference it, so a
+// new Task param is declared on the Pipeline and passed through tasks[].params.
+import YAML from "yaml";
+import fs from "node:fs";
+import { DeterministicRuleResult } from "../types.js";
+import { patchYamlSource } from "./yaml-edit.js";
+import { findYamlFiles } from "./files.js";
+
+export type PipelineConsumer = {
+  path: string;
+  yaml: string;
+  pipelineName: string;
+  pipelineTasks: string[]; // names of the pipeline tasks that reference the Task
+};
+
+// Params declared by the updated Task that the original Task did not have.
+export function addedParams(originalTaskYaml: string, updatedTaskYaml: string): any[] {
+  const before = new Set((YAML.parse(originalTaskYaml)?.spec?.params || []).map((p: any) => p.name));
+  return (YAML.parse(updatedTaskYaml)?.spec?.params || []).filter((p: any) => !before.has(p.name));
+}
+
+// Matches plain taskRefs as well as resolver refs that pass the Task name as a "name" param.
+function referencesTask(pt: any, taskName: string): boolean {
+  const ref = pt?.taskRef;
+  if (!ref) return false;
+  if (ref.kind && ref.kind !== "Task") return false;
+  if (ref.name === taskName) return true;
+  return (ref.params || []).some((p: any) => p.name === "name" && p.value === taskName);
+}
+
+function pipelineTasksOf(pipeline: any): any[] {
+  return [...(pipeline?.spec?.tasks || []), ...(pipeline?.spec?.finally || [])];
+}
+
+export function findPipelineConsumers(dir: string, taskName: string): PipelineConsumer[] {
+  const consumers: PipelineConsumer[] = [];
+  for (const file of findYamlFiles(dir)) {
+    const yaml = fs.readFileSync(file, "utf8");
+    let obj: any;
+    try {
+      obj = YAML.parse(yaml);
+    } catch {
+      continue; // not our concern here; batch/validation report unparsable files
+    }
+    if (obj?.kind !== "Pipeline") continue;
+    const matching = pipelineTasksOf(obj).filter(pt => referencesTask(pt, taskName));
+    if (matching.length === 0) continue;
+    consumers.push({ path: file, yaml, pipelineName: obj.metadata?.name, pipelineTasks: matching.map(pt => pt.name) });
+  }
+  return consumers;
+}
+
+function paramType(p: any): string {
+  return p?.type || "string";
+}
+
+// Declares each Task param on the Pipeline (copying type, description and
+// default so both stay consistent) and binds it on every referencing task.
+export function propagateParamsToPipeline(pipelineYaml: string, taskName: string, params: any[]): DeterministicRuleResult {
+  const name = "propagate-task-params";
+  const obj = YAML.parse(pipelineYaml);
+  const notes: string[] = [];
+  let changed = false;
+  const pipelineName = obj?.metadata?.name;
+  const consumers = pipelineTasksOf(obj).filter(pt => referencesTask(pt, taskName));
+
+  for (const p of params) {
+    obj.spec.params = obj.spec.params || [];
+    const existing = (obj.spec.params as any[]).find(x => x.name === p.name);
+
+    if (existing && paramType(existing) !== paramType(p)) {
+      notes.push(`CONFLICT: Pipeline ${pipelineName} already declares param ${p.name} as ${paramType(existing)}, Task ${taskName} declares ${paramType(p)}; not wired`);
+      continue;
+    }
+    if (existing && p.default !== undefined && JSON.stringify(existing.default) !== JSON.stringify(p.default)) {
+      notes.push(`Pipeline ${pipelineName} param ${p.name} default ${JSON.stringify(existing.default)} differs from Task default ${JSON.stringify(p.default)}; keeping Pipeline value`);
+    }
+    if (!existing) {
+      const decl: Record<string, unknown> = { name: p.name, type: paramType(p) };
+      if (p.description) decl.description = p.description;
+      if (p.properties) decl.properties = p.properties;
+      if (p.default !== undefined) decl.default = p.default;
+      (obj.spec.params as any[]).push(decl);
+      changed = true;
+      notes.push(`Declared param ${p.name} on Pipeline ${pipelineName}`);
+    }
+
+    for (const pt of consumers) {
+      pt.params = pt.params || [];
+      if ((pt.params as any[]).some(x => x.name === p.name)) continue;
+      // array and object params are passed whole with [*]
+      const value = paramType(p) === "string" ? `$(params.${p.name})` : `$(params.${p.name}[*])`;
+      (pt.params as any[]).push({ name: p.name, value });
+      changed = true;
+      notes.push(`Bound ${p.name} in Pipeline ${pipelineName} tasks[${pt.name}].params`);
+    }
+  }
+
+  return changed
+    ? { name, changed: true, notes, yaml: patchYamlSource(pipelineYaml, obj) }
+    : { name, changed: false, notes: notes.length ? notes : [`Pipeline ${pipelineName} already wires all new params`] };
+}
@@ -0,0 +1,190 @@
+// Companion manifests for changes that touch serviceAccount/rbac: the
+// ServiceAccount the runs use plus the Role (or ClusterRole) and binding that
+// grant it what the change asks for. Rules come from suggestedParams.rbacRules
+// or, failing that, from the resources and verbs the change text names.
+import YAML from "yaml";
+import { CompanionManifest, JumpstarterChange } from "../types.js";
+
+const MANAGED_BY = "tekton-jumpstarter-agent";
+const RBAC_API = "rbac.authorization.k8s.io";
+
+type PolicyRule = {
+  apiGroups?: string[];
+  resources?: string[];
+  resourceNames?: string[];
+  nonResourceURLs?: string[];
+  verbs: string[];
+};
+
+// Resources recognized in change text: how they are named, API group and
+// whether they are cluster-scoped.
+const KNOWN_RESOURCES: Record<string, { pattern: RegExp; group: string; cluster?: boolean }> = {
+  pods: { pattern: /\bpods?\b(?![\s/-]*(?:logs?|exec)\b)/i, group: "" },
+  "pods/log": { pattern: /\bpods?[\s/-]*logs?\b/i, group: "" },
+  "pods/exec": { pattern: /\bpods?[\s/-]*exec\b/i, group: "" },
+  secrets: { pattern: /\bsecrets?\b/i, group: "" },
+  configmaps: { pattern: /\bconfig[\s-]?maps?\b/i, group: "" },
+  services: { pattern: /\bservices?\b(?![\s-]*accounts?\b)/i, group: "" },
+  events: { pattern: /\bevents?\b/i, group: "" },
+  persistentvolumeclaims: { pattern: /\b(?:persistent[\s-]?volume[\s-]?claims?|pvcs?)\b/i, group: "" },
+  deployments: { pattern: /\bdeployments?\b/i, group: "apps" },
+  statefulsets: { pattern: /\bstateful[\s-]?sets?\b/i, group: "apps" },
+  jobs: { pattern: /\bjobs?\b/i, group: "batch" },
+  leases: { pattern: /\bleases?\b/i, group: "coordination.k8s.io" },
+  "network-attachment-definitions": { pattern: /\bnetwork[\s-]?attachment[\s-]?definitions?\b/i, group: "k8s.cni.cncf.io" },
+  nodes: { pattern: /\bnodes?\b/i, group: "", cluster: true },
+  namespaces: { pattern: /\bnamespaces?\b/i, group: "", cluster: true },
+  persistentvolumes: { pattern: /\b(?:persistent[\s-]?volumes?|pvs?)\b(?![\s-]*claims?\b)/i, group: "", cluster: true }
+};
+
+const READ_VERBS = ["get", "list", "watch"];
+const WRITE_VERBS = ["create", "update", "patch", "delete"];
+
+function touchesAccess(c: JumpstarterChange): boolean {
+  return (c.impactAreas || []).some(a => a === "serviceAccount" || a === "rbac");
+}
+
+function text(c: JumpstarterChange): string {
+  return [c.title, c.description].join("\n");
+}
+
+// A verb and its inflections: "patch" also matches patches, patched and
+// patching, "update" updates, updated and updating, "get" getting.
+function verbPattern(v: string): RegExp {
+  if (v.endsWith("e")) return new RegExp(`\\b${v.slice(0, -1)}(?:e|es|ed|ing)\\b`, "i");
+  const doubled = /[^aeiou][aeiou][^aeiouwy]$/.test(v) ? `${v.slice(-1)}?` : "";
+  return new RegExp(`\\b${v}(?:e?s|e?d|${doubled}ing)?\\b`, "i");
+}
+
+function verbsFromText(s: string): string[] {
+  const verbs = new Set<string>();
+  for (const v of [...READ_VERBS, ...WRITE_VERBS]) {
+    if (verbPattern(v).test(s)) verbs.add(v);
+  }
+  if (/\breads?\b/i.test(s)) READ_VERBS.forEach(v => verbs.add(v));
+  if (/\b(?:writ|manag|modif)\w*/i.test(s)) [...READ_VERBS, ...WRITE_VERBS].forEach(v => verbs.add(v));
+  return verbs.size > 0 ? [...verbs] : READ_VERBS;
+}
+
+// Verbs are read per clause, so "reads pods, manages leases" does not grant
+// write access to pods; a clause without verbs gets read access. Resources in
+// the same group with the same verbs share a rule; cluster-scoped ones are
+// kept apart for the ClusterRole.
+function rulesFromText(s: string): { namespaced: PolicyRule[]; cluster: PolicyRule[] } {
+  const grants = new Map<string, Set<string>>();
+  for (const clause of s.split(/[.,;!?]\s+|\n+/)) {
+    const resources = Object.keys(KNOWN_RESOURCES).filter(r => KNOWN_RESOURCES[r].pattern.test(clause));
+    if (resources.length === 0) continue;
+    const verbs = verbsFromText(clause);
+    for (const r of resources) {
+      const granted = grants.get(r) || new Set<string>();
+      verbs.forEach(v => granted.add(v));
+      grants.set(r, granted);
+    }
+  }
+  const rules = new Map<string, { rule: PolicyRule; cluster: boolean }>();
+  for (const [resource, verbs] of grants) {
+    const info = KNOWN_RESOURCES[resource];
+    const ordered = [...READ_VERBS, ...WRITE_VERBS].filter(v => verbs.has(v));
+    const key = `${info.cluster ? "cluster" : "ns"}:${info.group}:${ordered.join(",")}`;
+    const entry = rules.get(key) || { rule: { apiGroups: [info.group], resources: [], verbs: ordered }, cluster: !!info.cluster };
+    entry.rule.resources!.push(resource);
+    rules.set(key, entry);
+  }
+  const entries = [...rules.values()];
+  return { namespaced: entries.filter(e => !e.cluster).map(e => e.rule), cluster: entries.filter(e => e.cluster).map(e => e.rule) };
+}
+
+function suggestedRules(changes: JumpstarterChange[]): { rules: PolicyRule[]; clusterScoped: boolean } | undefined {
+  for (const c of changes) {
+    const rules = c.suggestedParams?.rbacRules;
+    if (Array.isArray(rules)) {
+      return { rules: rules as PolicyRule[], clusterScoped: c.suggestedParams?.clusterScoped === true };
+    }
+  }
+  return undefined;
+}
+
+// The service account runs of `resourceName` use: the one a change suggests,
+// else "<resourceName>-runner". security.ts points runs at the same name.
+export function serviceAccountName(changes: JumpstarterChange[], resourceName: string): string | undefined {
+  for (const c of changes) {
+    const v = c.suggestedParams?.serviceAccountName ?? c.suggestedParams?.serviceAccount;
+    if (typeof v === "string" && v) return v;
+  }
+  return resourceName ? `${resourceName}-runner` : undefined;
+}
+
+function metadata(name: string, namespace: string | undefined, changeIds: string[]) {
+  const meta: Record<string, unknown> = { name };
+  if (namespace) meta.namespace = namespace;
+  meta.labels = { "app.kubernetes.io/managed-by": MANAGED_BY };
+  meta.annotations = { "jumpstarter.dev/change-ids": changeIds.join(",") };
+  return meta;
+}
+
+function manifest(obj: any): CompanionManifest {
+  return { kind: obj.kind, name: obj.metadata.name, object: obj, yaml: YAML.stringify(obj) };
+}
+
+// Builds the manifests for `resource` (the Task/Pipeline/run being updated).
+// Bindings need the ServiceAccount's namespace; without one on the resource
+// they use "default" and say so in the notes.
+export function generateCompanionManifests(resource: any, changes: JumpstarterChange[]): { manifests: CompanionManifest[]; notes: string[] } {
+  const relevant = changes.filter(touchesAccess);
+  if (relevant.length === 0) return { manifests: [], notes: [] };
+
+  const notes: string[] = [];
+  const ids = relevant.map(c => c.id);
+  const resourceName: string = resource?.metadata?.name || "";
+  const saName = serviceAccountName(changes, resourceName);
+  if (!saName) return { manifests: [], notes: ["Companion manifests skipped: no service account name and no resource name to derive one from"] };
+
+  let namespace: string | undefined = resource?.metadata?.namespace;
+  if (!namespace) {
+    namespace = "default";
+    notes.push(`Companion manifests use namespace "default"; set metadata.namespace on the ${resource?.kind || "resource"} or edit the manifests`);
+  }
+
+  const manifests: CompanionManifest[] = [
+    manifest({ apiVersion: "v1", kind: "ServiceAccount", metadata: metadata(saName, namespace, ids) })
+  ];
+
+  const explicit = suggestedRules(relevant);
+  const scoped = explicit
+    ? explicit.clusterScoped ? { namespaced: [], cluster: explicit.rules } : { namespaced: explicit.rules, cluster: [] }
+    : rulesFromText(relevant.map(text).join("\n"));
+  const subject = { kind: "ServiceAccount", name: saName, namespace };
+
+  if (scoped.namespaced.length > 0) {
+    manifests.push(manifest({ apiVersion: `${RBAC_API}/v1`, kind: "Role", metadata: metadata(saName, namespace, ids), rules: scoped.namespaced }));
+    manifests.push(manifest({
+      apiVersion: `${RBAC_API}/v1`, kind: "RoleBinding", metadata: metadata(saName, namespace, ids),
+      roleRef: { apiGroup: RBAC_API, kind: "Role", name: saName }, subjects: [subject]
+    }));
+  }
+  if (scoped.cluster.length > 0) {
+    manifests.push(manifest({ apiVersion: `${RBAC_API}/v1`, kind: "ClusterRole", metadata: metadata(saName, undefined, ids), rules: scoped.cluster }));
+    manifests.push(manifest({
+      apiVersion: `${RBAC_API}/v1`, kind: "ClusterRoleBinding", metadata: metadata(saName, undefined, ids),
+      roleRef: { apiGroup: RBAC_API, kind: "ClusterRole", name: saName }, subjects: [subject]
+    }));
+  }
+  if (scoped.namespaced.length === 0 && scoped.cluster.length === 0) {
+    notes.push(`No RBAC rules found in ${ids.join(", ")}; generated ServiceAccount ${saName} only (list them in suggestedParams.rbacRules)`);
+  }
+
+  notes.push(`Generated ${manifests.map(m => `${m.kind}/${m.name}`).join(", ")}`);
+  return { manifests, notes };
+}
+
+// Companions appended to a resource as extra YAML documents.
+export function withCompanionDocuments(yaml: string, manifests: CompanionManifest[]): string {
+  if (manifests.length === 0) return yaml;
+  return [yaml.endsWith("\n") ? yaml : `${yaml}\n`, ...manifests.map(m => m.yaml)].join("---\n");
+}
+
+// File name for a companion written on its own: serviceaccount-<name>.yaml, ...
+export function companionFileName(m: CompanionManifest): string {
+  return `${m.kind.toLowerCase()}-${m.name}.yaml`;
+}
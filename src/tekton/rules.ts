@@ -0,0 +1,227 @@
+// Declarative rule packs. A rule says when a Jumpstarter change applies
+// (match) and what it ensures on the resource (actions); kinds.ts decides
+// where each action lands. Packs are YAML or JSON files loaded from a rules
+// directory on top of the built-in pack, so new patterns need no code change.
+import Ajv from "ajv";
+import YAML from "yaml";
+import fs from "node:fs";
+import path from "node:path";
+import builtinPack from "./rules/builtin.json" with { type: "json" };
+import rulePackSchema from "./rules/rule-pack.schema.json" with { type: "json" };
+import { JumpstarterChange, ValidationIssue } from "../types.js";
+import { toValidationIssues } from "./validation.js";
+import {
+  AnnotationRequirement,
+  EnvRequirement,
+  ParamRequirement,
+  ParamUsageRequirement,
+  ResultRequirement,
+  RuleRequirement,
+  VolumeMountRequirement,
+  VolumeRequirement,
+  WorkspaceRequirement
+} from "./kinds.js";
+
+// Every condition given must hold for a change; regexes are case-insensitive
+// and impactAreas matches when the change lists any of them.
+export type RuleMatch = {
+  text?: string; // title and description together
+  title?: string;
+  description?: string;
+  capability?: string;
+  impactAreas?: string[];
+};
+
+export type RuleAction =
+  | { ensureParam: ParamRequirement }
+  | { ensureResult: ResultRequirement }
+  | { ensureEnv: EnvRequirement }
+  | { ensureVolume: VolumeRequirement }
+  | { ensureVolumeMount: VolumeMountRequirement }
+  | { ensureAnnotation: AnnotationRequirement }
+  | { ensureWorkspace: WorkspaceRequirement }
+  | { ensureParamUsage: ParamUsageRequirement };
+
+export type RuleDefinition = {
+  name: string;
+  description?: string;
+  match: RuleMatch;
+  actions: RuleAction[];
+  notes?: string; // template, e.g. "Wired {{change.capability}} for {{changes}}"
+  source: string; // pack file the rule came from, or "builtin"
+};
+
+export const BUILTIN_RULES_SOURCE = "builtin";
+
+const REGEX_MATCH_FIELDS = ["text", "title", "description", "capability"] as const;
+
+const TEMPLATE_VARS = ["rule", "changes", "change.id", "change.title", "change.capability"];
+
+// Structure comes from rules/rule-pack.schema.json, which packs can also
+// point their editors at; what a schema cannot say is checked after it.
+const ajv = new Ajv({ allErrors: true });
+const validateRulePack = ajv.compile(rulePackSchema);
+
+export class RulePackError extends Error {
+  constructor(public readonly source: string, public readonly errors: ValidationIssue[]) {
+    super(`Invalid rule pack ${source}: ` + errors.map(e => `${e.path}: ${e.message}`).join("; "));
+    this.name = "RulePackError";
+  }
+}
+
+function checkRegex(value: string | undefined, p: string, issues: ValidationIssue[]) {
+  if (value === undefined) return;
+  try {
+    new RegExp(value, "i");
+  } catch (e: any) {
+    issues.push({ path: p, message: `is not a valid regular expression: ${e.message}`, keyword: "format" });
+  }
+}
+
+function checkParamUsage(usage: ParamUsageRequirement, p: string, issues: ValidationIssue[]) {
+  const field = usage.args !== undefined ? "args" : usage.script !== undefined ? "script" : undefined;
+  if (field && !JSON.stringify(usage[field]).includes(`$(params.${usage.param}`)) {
+    issues.push({ path: `${p}.${field}`, message: `must reference $(params.${usage.param})`, keyword: "format" });
+  }
+  if (usage.step !== undefined && usage.stepMatch !== undefined) {
+    issues.push({ path: p, message: "must not set both step and stepMatch", keyword: "not" });
+  }
+  checkRegex(usage.stepMatch, `${p}.stepMatch`, issues);
+  checkRegex(usage.skipMatch, `${p}.skipMatch`, issues);
+}
+
+function checkRule(rule: Omit<RuleDefinition, "source">, p: string, issues: ValidationIssue[]) {
+  for (const k of REGEX_MATCH_FIELDS) checkRegex(rule.match[k], `${p}.match.${k}`, issues);
+  rule.actions.forEach((action, i) => {
+    if ("ensureParamUsage" in action) checkParamUsage(action.ensureParamUsage, `${p}.actions[${i}].ensureParamUsage`, issues);
+  });
+  for (const [, v] of (rule.notes || "").matchAll(/\{\{\s*([^}]+?)\s*\}\}/g)) {
+    if (!TEMPLATE_VARS.includes(v)) {
+      issues.push({ path: `${p}.notes`, message: `unknown placeholder {{${v}}} (expected one of: ${TEMPLATE_VARS.join(", ")})`, keyword: "format" });
+    }
+  }
+}
+
+// Schema messages that only count properties, in the words of the pack format.
+function packIssue(issue: ValidationIssue): ValidationIssue {
+  if (issue.path.endsWith(".ensureVolume") && /^(min|max)Properties$/.test(issue.keyword)) {
+    return { ...issue, message: "must set exactly one volume source (e.g., emptyDir, hostPath)" };
+  }
+  if (/\.actions\[\d+\]$/.test(issue.path) && issue.keyword === "oneOf" && issue.params?.passingSchemas) {
+    return { ...issue, message: `must set only one of: ${Object.keys(rulePackSchema.definitions.action.properties).join(", ")}` };
+  }
+  return issue;
+}
+
+// Validates a parsed pack ({ rules: [...] }) and returns its rules.
+export function parseRulePack(pack: unknown, source: string): RuleDefinition[] {
+  if (!validateRulePack(pack)) throw new RulePackError(source, toValidationIssues(validateRulePack.errors).map(packIssue));
+  const rules = (pack as { rules: Omit<RuleDefinition, "source">[] }).rules;
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  rules.forEach((r, i) => {
+    checkRule(r, `rules[${i}]`, issues);
+    if (seen.has(r.name)) issues.push({ path: `rules[${i}].name`, message: `duplicate name "${r.name}"`, keyword: "uniqueItemProperties" });
+    seen.add(r.name);
+  });
+  if (issues.length > 0) throw new RulePackError(source, issues);
+  return rules.map(r => ({ ...r, source }));
+}
+
+// A schema next to the packs (e.g. a copy of rule-pack.schema.json) is not one.
+function isRulePackFile(f: string) {
+  return (f.endsWith(".yaml") || f.endsWith(".yml") || f.endsWith(".json")) && !f.endsWith(".schema.json");
+}
+
+// Every pack file directly in `dir`, in file name order.
+export function loadRulePacks(dir: string): RuleDefinition[] {
+  const files = fs.readdirSync(dir).filter(isRulePackFile).sort();
+  return files.flatMap(f => {
+    const full = path.join(dir, f);
+    let pack: unknown;
+    try {
+      pack = YAML.parse(fs.readFileSync(full, "utf8"));
+    } catch (e: any) {
+      throw new RulePackError(full, [{ path: "(root)", message: "invalid YAML/JSON: " + e.message, keyword: "parse" }]);
+    }
+    return parseRulePack(pack, full);
+  });
+}
+
+// Built-in rules plus the packs in `rulesDir` (default: $TEKTON_RULES_DIR).
+// A pack rule with a built-in rule's name replaces it in place.
+export function loadRules(rulesDir: string | undefined = process.env.TEKTON_RULES_DIR): RuleDefinition[] {
+  const rules = parseRulePack(builtinPack, BUILTIN_RULES_SOURCE);
+  if (!rulesDir) return rules;
+  for (const rule of loadRulePacks(rulesDir)) {
+    const i = rules.findIndex(r => r.name === rule.name);
+    if (i >= 0) rules[i] = rule;
+    else rules.push(rule);
+  }
+  return rules;
+}
+
+function matchesChange(match: RuleMatch, c: JumpstarterChange): boolean {
+  const test = (pattern: string | undefined, value: string | undefined) =>
+    pattern === undefined || new RegExp(pattern, "i").test(value || "");
+  const areas = (c.impactAreas || []).map(a => a.toLowerCase());
+  return test(match.text, [c.title, c.description].join(" ")) &&
+    test(match.title, c.title) &&
+    test(match.description, c.description) &&
+    test(match.capability, c.capability) &&
+    (!match.impactAreas || match.impactAreas.some(a => areas.includes(a.toLowerCase())));
+}
+
+export function matchingChanges(rule: RuleDefinition, changes: JumpstarterChange[]): JumpstarterChange[] {
+  return changes.filter(c => matchesChange(rule.match, c));
+}
+
+// Folds a rule's actions into the requirement kinds.ts knows how to apply.
+export function ruleRequirement(rule: RuleDefinition): RuleRequirement {
+  const req: Required<Omit<RuleRequirement, "stepTemplate" | "scriptEdits">> = { params: [], results: [], env: [], volumes: [], volumeMounts: [], annotations: [], workspaces: [], usages: [] };
+  for (const action of rule.actions) {
+    if ("ensureParam" in action) req.params.push(action.ensureParam);
+    else if ("ensureResult" in action) req.results.push(action.ensureResult);
+    else if ("ensureEnv" in action) req.env.push(action.ensureEnv);
+    else if ("ensureVolume" in action) req.volumes.push(action.ensureVolume);
+    else if ("ensureVolumeMount" in action) req.volumeMounts.push(action.ensureVolumeMount);
+    else if ("ensureAnnotation" in action) req.annotations.push(action.ensureAnnotation);
+    else if ("ensureWorkspace" in action) req.workspaces.push(action.ensureWorkspace);
+    else if ("ensureParamUsage" in action) req.usages.push(action.ensureParamUsage);
+  }
+  return req;
+}
+
+// Fills a rule's notes template from the first matching change.
+export function renderRuleNotes(rule: RuleDefinition, matched: JumpstarterChange[]): string | undefined {
+  if (!rule.notes) return undefined;
+  const first = matched[0];
+  const vars: Record<string, string> = {
+    "rule": rule.name,
+    "changes": matched.map(c => c.id).join(", "),
+    "change.id": first?.id || "",
+    "change.title": first?.title || "",
+    "change.capability": first?.capability || ""
+  };
+  return rule.notes.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, v: string) => vars[v] ?? "");
+}
+
+// One line per action, for `rules list`.
+export function describeAction(action: RuleAction): string {
+  const [type, body] = Object.entries(action)[0] as [string, any];
+  switch (type) {
+    case "ensureParam": return `param ${body.name} (${body.type || "string"})`;
+    case "ensureResult": return `result ${body.name}`;
+    case "ensureEnv": return `env ${body.name}${body.step ? ` on step ${body.step}` : ""}`;
+    case "ensureVolume": return `volume ${body.name}`;
+    case "ensureVolumeMount": return `volumeMount ${body.name} at ${body.mountPath}${body.step ? ` on step ${body.step}` : ""}`;
+    case "ensureAnnotation": return `annotation ${body.key}=${body.value}`;
+    case "ensureWorkspace": return `workspace ${body.name}`;
+    case "ensureParamUsage": {
+      const usage = body.env ? `env ${body.env}` : body.args ? `args ${body.args.join(" ")}` : "script line";
+      const where = body.step ? ` on step ${body.step}` : body.stepMatch ? ` on steps matching /${body.stepMatch}/` : "";
+      return `use param ${body.param} as ${usage}${where}${body.skipMatch ? `, except steps matching /${body.skipMatch}/` : ""}`;
+    }
+    default: return type;
+  }
+}
@@ -0,0 +1,148 @@
+// Deterministic handlers for security-sensitive changes (impactAreas security,
+// serviceAccount, network, rbac). Each widens what a run may do on the
+// cluster, so every edit they make is flagged for review regardless of the
+// auto-apply threshold.
+import { JumpstarterChange } from "../types.js";
+import { KindApplyResult, RuleRequirement, TektonKind, VolumeMountRequirement, VolumeRequirement, applyRequirementToKind } from "./kinds.js";
+import { serviceAccountName } from "./rbac.js";
+
+// Annotations a Task/Pipeline carries so whoever creates the run sets the pod-level field.
+export const SERVICE_ACCOUNT_ANNOTATION = "jumpstarter.dev/service-account";
+export const HOST_NETWORK_ANNOTATION = "jumpstarter.dev/host-network";
+
+// Suggested keys these handlers (and rbac.ts) consume; suggested.ts leaves them alone.
+export const SECURITY_SUGGESTED_KEYS = ["securityContext", "serviceAccount", "serviceAccountName", "hostNetwork", "rbacRules", "clusterScoped"];
+
+export type SecurityRuleResult = {
+  name: string;
+  applied: KindApplyResult;
+};
+
+function hasArea(c: JumpstarterChange, ...areas: string[]): boolean {
+  return (c.impactAreas || []).some(a => areas.includes(a));
+}
+
+function text(c: JumpstarterChange): string {
+  return [c.title, c.description].join(" ");
+}
+
+function suggested(c: JumpstarterChange, ...keys: string[]): unknown {
+  for (const k of keys) {
+    if (c.suggestedParams?.[k] !== undefined) return c.suggestedParams[k];
+  }
+  return undefined;
+}
+
+// Explicit suggestions win; otherwise read the intent from the wording.
+function securityContextFor(changes: JumpstarterChange[]): Record<string, unknown> {
+  const context: Record<string, unknown> = {};
+  for (const c of changes) {
+    const explicit = suggested(c, "securityContext");
+    if (explicit && typeof explicit === "object" && !Array.isArray(explicit)) {
+      for (const [k, v] of Object.entries(explicit)) if (!(k in context)) context[k] = v;
+    } else if (hasArea(c, "security")) {
+      if (/\bprivileged\b/i.test(text(c)) && !("privileged" in context)) context.privileged = true;
+      if (/privilege\s+escalation/i.test(text(c)) && !("allowPrivilegeEscalation" in context)) context.allowPrivilegeEscalation = true;
+    }
+  }
+  return context;
+}
+
+// "/dev/usb" -> hostPath volume "host-dev-usb" mounted at the same path
+function hostPathsFor(changes: JumpstarterChange[]): string[] {
+  const paths = new Set<string>();
+  for (const c of changes.filter(c => hasArea(c, "security"))) {
+    for (const m of text(c).matchAll(/(?:^|[\s(,'"`])(\/(?:dev|sys)(?:\/[\w.-]+)*)/g)) {
+      paths.add(m[1].replace(/[.,]+$/, ""));
+    }
+  }
+  return [...paths].sort();
+}
+
+function volumeName(hostPath: string): string {
+  return ("host" + hostPath.replace(/[^a-zA-Z0-9]+/g, "-")).toLowerCase().replace(/-+$/, "").slice(0, 63);
+}
+
+// Named like the ServiceAccount rbac.ts generates, so runs use that one.
+function serviceAccountFor(obj: any, changes: JumpstarterChange[]): { name?: string; wanted: boolean } {
+  const wanted = changes.some(c => hasArea(c, "serviceAccount", "rbac") || suggested(c, "serviceAccount", "serviceAccountName") !== undefined);
+  return { name: serviceAccountName(changes, obj?.metadata?.name || ""), wanted };
+}
+
+function wantsHostNetwork(changes: JumpstarterChange[]): boolean {
+  return changes.some(c => {
+    const value = suggested(c, "hostNetwork");
+    if (value !== undefined) return value === true || value === "true";
+    return hasArea(c, "network") && /host[\s-]*network/i.test(text(c));
+  });
+}
+
+// Sets a pod-level field on a run; an existing different value is kept and reported.
+function setRunField(target: any, field: string, value: unknown, label: string, notes: string[]): boolean {
+  const current = target[field];
+  if (current === value) return false;
+  if (current !== undefined) {
+    notes.push(`CONFLICT: ${label}.${field} is ${JSON.stringify(current)}, change wants ${JSON.stringify(value)}; left unchanged`);
+    return false;
+  }
+  target[field] = value;
+  notes.push(`Set ${label}.${field}=${JSON.stringify(value)}`);
+  return true;
+}
+
+// Pod-level settings: runs carry them directly, Tasks/Pipelines get an annotation hook.
+function applyPodSetting(kind: TektonKind, obj: any, field: "serviceAccountName" | "hostNetwork", value: string | boolean, annotation: string, changes: JumpstarterChange[]): KindApplyResult {
+  const notes: string[] = [];
+  let changed = false;
+  if (kind === "TaskRun" || kind === "PipelineRun") {
+    obj.spec = obj.spec || {};
+    let target = obj.spec;
+    let label = "spec";
+    if (kind === "PipelineRun") {
+      target = obj.spec.taskRunTemplate = obj.spec.taskRunTemplate || {};
+      label = "spec.taskRunTemplate";
+    }
+    if (field === "hostNetwork") {
+      target = target.podTemplate = target.podTemplate || {};
+      label += ".podTemplate";
+    }
+    changed = setRunField(target, field, value, label, notes);
+    return { changed, notes };
+  }
+  const applied = applyRequirementToKind(kind, obj, { annotations: [{ key: annotation, value: String(value) }] }, changes);
+  if (applied.changed) applied.notes.push(`Runs of this ${kind} must set ${field === "hostNetwork" ? "podTemplate.hostNetwork" : "serviceAccountName"} (see ${annotation})`);
+  return applied;
+}
+
+// A generator so the caller can snapshot the resource after each rule.
+export function* applySecurityRules(kind: TektonKind, obj: any, changes: JumpstarterChange[]): Generator<SecurityRuleResult> {
+  const context = securityContextFor(changes);
+  if (Object.keys(context).length > 0) {
+    const req: RuleRequirement = { stepTemplate: { securityContext: context } };
+    const applied = applyRequirementToKind(kind, obj, req, changes);
+    if (kind === "TaskRun" && !obj.spec?.taskSpec) applied.notes.push("TaskRun uses taskRef: set the securityContext on the referenced Task");
+    yield { name: "ensure-step-security-context", applied };
+  }
+
+  const hostPaths = hostPathsFor(changes);
+  if (hostPaths.length > 0) {
+    const volumes: VolumeRequirement[] = hostPaths.map(p => ({ name: volumeName(p), hostPath: { path: p } }));
+    const volumeMounts: VolumeMountRequirement[] = hostPaths.map(p => ({ name: volumeName(p), mountPath: p }));
+    const applied = applyRequirementToKind(kind, obj, { volumes, volumeMounts }, changes);
+    if (kind === "TaskRun" && !obj.spec?.taskSpec) applied.notes.push("TaskRun uses taskRef: mount the host paths in the referenced Task");
+    yield { name: "ensure-host-device-mounts", applied };
+  }
+
+  const sa = serviceAccountFor(obj, changes);
+  if (sa.wanted) {
+    const applied = sa.name
+      ? applyPodSetting(kind, obj, "serviceAccountName", sa.name, SERVICE_ACCOUNT_ANNOTATION, changes)
+      : { changed: false, notes: [`Change needs a dedicated service account but suggests no name, and the ${kind} has none to derive one from; set serviceAccountName on the run`] };
+    if (changes.some(c => hasArea(c, "rbac"))) applied.notes.push("Change alters RBAC: review the permissions bound to the service account");
+    yield { name: "ensure-service-account", applied };
+  }
+
+  if (wantsHostNetwork(changes)) {
+    yield { name: "ensure-host-network", applied: applyPodSetting(kind, obj, "hostNetwork", true, HOST_NETWORK_ANNOTATION, changes) };
+  }
+}
@@ -0,0 +1,133 @@
+// Turns JumpstarterChange.suggestedParams into Tekton params. Scalars, lists
+// and flat maps become string/array/object params with the suggested value as
+// default; container settings such as computeResources go on stepTemplate.
+import { JumpstarterChange } from "../types.js";
+import { KindApplyResult, ParamRequirement, RuleRequirement, TektonKind, applyRequirementToKind } from "./kinds.js";
+import { SECURITY_SUGGESTED_KEYS } from "./security.js";
+
+// Suggested keys that configure the step containers rather than name a param.
+// securityContext is one too, but security.ts places it so it is flagged for review.
+const CONTAINER_SETTINGS: Record<string, string> = {
+  computeResources: "computeResources",
+  resources: "computeResources" // v1beta1 name
+};
+
+const ACRONYMS = new Set(["api", "dns", "id", "ip", "nad", "tls", "uri", "url", "usb"]);
+
+// No default for values that look like credentials: they belong in a Secret.
+const CREDENTIAL_NAME = /password|passwd|token|secret|credential|apikey|privatekey/i;
+
+type Inferred = { type: ParamRequirement["type"]; default: unknown } | { error: string };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isScalar(v: unknown): boolean {
+  return typeof v === "string" || typeof v === "number" || typeof v === "boolean";
+}
+
+// "secondaryNetworkNAD" -> "Secondary network NAD"
+export function describeParamName(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[\s_\-.]+/)
+    .filter(Boolean)
+    .map(w => (ACRONYMS.has(w.toLowerCase()) || /^[A-Z0-9]{2,}$/.test(w) ? w.toUpperCase() : w.toLowerCase()));
+  const text = words.join(" ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Tekton param values are strings, arrays of strings or flat string maps.
+export function inferParamType(value: unknown): Inferred {
+  if (value === null || value === undefined) return { type: "string", default: undefined };
+  if (isScalar(value)) return { type: "string", default: String(value) };
+  if (Array.isArray(value)) {
+    if (!value.every(isScalar)) return { error: "arrays of objects cannot be Tekton params" };
+    return { type: "array", default: value.map(String) };
+  }
+  if (isPlainObject(value)) {
+    if (!Object.values(value).every(isScalar)) return { error: "nested objects cannot be Tekton params" };
+    return { type: "object", default: Object.fromEntries(Object.entries(value).map(([k, v]) => [k, String(v)])) };
+  }
+  return { error: `unsupported value ${JSON.stringify(value)}` };
+}
+
+function objectProperties(value: Record<string, unknown>) {
+  return Object.fromEntries(Object.keys(value).map(k => [k, { type: "string" }]));
+}
+
+// Params the resource already declares, where the requirement would land.
+function declaredParams(kind: TektonKind, obj: any): any[] {
+  const spec = obj?.spec || {};
+  switch (kind) {
+    case "TaskRun": return spec.taskSpec?.params || [];
+    case "PipelineRun": return spec.pipelineSpec?.params || [];
+    default: return spec.params || [];
+  }
+}
+
+export function applySuggestedParams(kind: TektonKind, obj: any, changes: JumpstarterChange[]): KindApplyResult {
+  const notes: string[] = [];
+  const params: ParamRequirement[] = [];
+  const stepTemplate: NonNullable<RuleRequirement["stepTemplate"]> = {};
+  const seen = new Map<string, { type?: string; change: string }>();
+  const existing = declaredParams(kind, obj);
+
+  for (const change of changes) {
+    for (const [name, value] of Object.entries(change.suggestedParams || {})) {
+      if (SECURITY_SUGGESTED_KEYS.includes(name)) continue;
+      const field = CONTAINER_SETTINGS[name];
+      if (field) {
+        if (!isPlainObject(value)) {
+          notes.push(`Skipped suggested ${name} from ${change.id}: expected an object of ${field} fields`);
+          continue;
+        }
+        // Earlier changes win per key, like params below
+        stepTemplate[field] = { ...value, ...(stepTemplate[field] || {}) };
+        continue;
+      }
+
+      const inferred = inferParamType(value);
+      if ("error" in inferred) {
+        notes.push(`Skipped suggested param ${name} from ${change.id}: ${inferred.error}`);
+        continue;
+      }
+
+      const earlier = seen.get(name);
+      if (earlier) {
+        if (earlier.type !== inferred.type) {
+          notes.push(`CONFLICT: ${change.id} suggests ${name} as ${inferred.type}, ${earlier.change} as ${earlier.type}; using ${earlier.change}`);
+        }
+        continue;
+      }
+      seen.set(name, { type: inferred.type, change: change.id });
+
+      // A matching declaration is left as is (runs still get the value pinned)
+      const declared = existing.find((p: any) => p?.name === name);
+      if (declared && (declared.type || "string") !== inferred.type) {
+        notes.push(`CONFLICT: param ${name} is declared as ${declared.type || "string"} but ${change.id} suggests a ${inferred.type} value; left unchanged`);
+        continue;
+      }
+
+      const param: ParamRequirement = {
+        name,
+        type: inferred.type,
+        description: `${describeParamName(name)} (suggested by ${change.id})`
+      };
+      if (inferred.type === "object") param.properties = objectProperties(value as Record<string, unknown>);
+      if (inferred.default !== undefined && CREDENTIAL_NAME.test(name)) {
+        notes.push(`Param ${name} looks like a credential; declared without a default`);
+      } else if (inferred.default !== undefined) {
+        param.default = inferred.default;
+      }
+      params.push(param);
+    }
+  }
+
+  const req: RuleRequirement = { params };
+  if (Object.keys(stepTemplate).length > 0) req.stepTemplate = stepTemplate;
+  const applied = applyRequirementToKind(kind, obj, req, changes);
+  return { changed: applied.changed, notes: [...notes, ...applied.notes] };
+}
@@ -0,0 +1,243 @@
+// The Tekton Pipelines release and feature flags proposals have to run on.
+// The schemas accept everything tekton.dev/v1 can express; this rejects what
+// the target cluster does not serve yet (or only behind a flag), and drops
+// the purely cosmetic fields it can do without.
+import fs from "node:fs";
+import path from "node:path";
+import YAML from "yaml";
+import { ValidationIssue } from "../types.js";
+import { TektonKind, detectKind } from "./kinds.js";
+import { TektonValidationError } from "./updater.js";
+import { patchYamlSource } from "./yaml-edit.js";
+
+export type ApiFields = "stable" | "beta" | "alpha";
+
+export type TektonTarget = {
+  version?: string; // Pipelines release, e.g. "0.53" or "v0.56.1"; unset: any release
+  featureFlags: Record<string, string>; // the feature-flags ConfigMap, e.g. { "enable-api-fields": "beta" }
+};
+
+// One place a feature is used, e.g. spec.tasks[2].matrix.
+export type TargetViolation = {
+  feature: string;
+  path: string;
+  message: string;
+  downgradable: boolean; // can be removed without changing what runs
+};
+
+type Use = { path: string; drop?: () => void };
+
+type Feature = {
+  name: string;
+  description: string;
+  // enable-api-fields level the feature needs from each release on, oldest first
+  stages: { since: string; apiFields: ApiFields }[];
+  flag?: string; // a dedicated flag that must also be "true"
+  uses: (kind: TektonKind, obj: any) => Use[];
+};
+
+const API_FIELDS: ApiFields[] = ["stable", "beta", "alpha"];
+
+// [spec, path] of every Task spec in the resource, embedded ones included.
+function taskSpecs(kind: TektonKind, obj: any): [any, string][] {
+  const out: [any, string][] = [];
+  if (kind === "Task") out.push([obj.spec, "spec"]);
+  if (kind === "TaskRun" && obj.spec?.taskSpec) out.push([obj.spec.taskSpec, "spec.taskSpec"]);
+  for (const [pipeline, at] of pipelineSpecs(kind, obj)) {
+    for (const [pt, ptPath] of pipelineTasks(pipeline, at)) {
+      if (pt.taskSpec) out.push([pt.taskSpec, `${ptPath}.taskSpec`]);
+    }
+  }
+  return out.filter(([spec]) => spec && typeof spec === "object");
+}
+
+function pipelineSpecs(kind: TektonKind, obj: any): [any, string][] {
+  if (kind === "Pipeline" && obj.spec) return [[obj.spec, "spec"]];
+  if (kind === "PipelineRun" && obj.spec?.pipelineSpec) return [[obj.spec.pipelineSpec, "spec.pipelineSpec"]];
+  return [];
+}
+
+function pipelineTasks(spec: any, at: string): [any, string][] {
+  return (["tasks", "finally"] as const).flatMap(list =>
+    (Array.isArray(spec?.[list]) ? spec[list] : []).map((pt: any, i: number): [any, string] => [pt, `${at}.${list}[${i}]`])
+  ).filter(([pt]) => pt && typeof pt === "object");
+}
+
+function typed(list: unknown, types: string[], at: string): Use[] {
+  return (Array.isArray(list) ? list : [])
+    .map((item, i): [any, number] => [item, i])
+    .filter(([item]) => types.includes(item?.type))
+    .map(([item, i]) => ({ path: `${at}[${i}] (${item.name})` }));
+}
+
+// Release numbers are from the Tekton Pipelines feature table; a flag the
+// target does not set counts as off and enable-api-fields as "stable".
+const FEATURES: Feature[] = [
+  {
+    name: "step-actions",
+    description: "Steps that reference a StepAction (step.ref)",
+    stages: [{ since: "0.54", apiFields: "alpha" }, { since: "0.59", apiFields: "beta" }],
+    flag: "enable-step-actions",
+    uses: (kind, obj) => taskSpecs(kind, obj).flatMap(([spec, at]) =>
+      (Array.isArray(spec.steps) ? spec.steps : []).flatMap((s: any, i: number) => (s?.ref ? [{ path: `${at}.steps[${i}].ref` }] : [])))
+  },
+  {
+    name: "array-results",
+    description: "Results of type array",
+    stages: [{ since: "0.38", apiFields: "alpha" }, { since: "0.47", apiFields: "beta" }],
+    uses: (kind, obj) => [
+      ...taskSpecs(kind, obj).flatMap(([spec, at]) => typed(spec.results, ["array"], `${at}.results`)),
+      ...pipelineSpecs(kind, obj).flatMap(([spec, at]) => typed(spec.results, ["array"], `${at}.results`))
+    ]
+  },
+  {
+    name: "object-params-and-results",
+    description: "Params and results of type object",
+    stages: [{ since: "0.46", apiFields: "alpha" }, { since: "0.53", apiFields: "beta" }],
+    uses: (kind, obj) => [
+      ...taskSpecs(kind, obj).flatMap(([spec, at]) => [...typed(spec.params, ["object"], `${at}.params`), ...typed(spec.results, ["object"], `${at}.results`)]),
+      ...pipelineSpecs(kind, obj).flatMap(([spec, at]) => [...typed(spec.params, ["object"], `${at}.params`), ...typed(spec.results, ["object"], `${at}.results`)])
+    ]
+  },
+  {
+    name: "display-name",
+    description: "displayName on PipelineTasks",
+    stages: [{ since: "0.45", apiFields: "stable" }],
+    uses: (kind, obj) => pipelineSpecs(kind, obj).flatMap(([spec, at]) => pipelineTasks(spec, at)
+      .filter(([pt]) => pt.displayName !== undefined)
+      .map(([pt, ptPath]) => ({ path: `${ptPath}.displayName`, drop: () => delete pt.displayName })))
+  },
+  {
+    name: "matrix",
+    description: "Fanning out PipelineTasks with matrix",
+    stages: [{ since: "0.38", apiFields: "alpha" }, { since: "0.53", apiFields: "beta" }],
+    uses: (kind, obj) => pipelineSpecs(kind, obj).flatMap(([spec, at]) => pipelineTasks(spec, at)
+      .filter(([pt]) => pt.matrix !== undefined)
+      .map(([, ptPath]) => ({ path: `${ptPath}.matrix` })))
+  }
+];
+
+// "v0.56.1" -> [0, 56]
+function releaseOf(version: string): [number, number] {
+  const m = /^v?(\d+)\.(\d+)(?:\.\d+)?(?:[-+].*)?$/.exec(version.trim());
+  if (!m) throw new Error(`Invalid Tekton Pipelines version "${version}"; expected e.g. 0.53 or v0.56.1`);
+  return [Number(m[1]), Number(m[2])];
+}
+
+function atLeast(version: string, since: string): boolean {
+  const [a, b] = [releaseOf(version), releaseOf(since)];
+  return a[0] !== b[0] ? a[0] > b[0] : a[1] >= b[1];
+}
+
+function apiFieldsOf(target: TektonTarget): ApiFields {
+  const value = target.featureFlags["enable-api-fields"] || "stable";
+  if (!API_FIELDS.includes(value as ApiFields)) {
+    throw new Error(`Invalid enable-api-fields "${value}"; expected one of: ${API_FIELDS.join(", ")}`);
+  }
+  return value as ApiFields;
+}
+
+// Why `feature` is unavailable on `target`, or undefined if it is available.
+function unavailable(feature: Feature, target: TektonTarget): string | undefined {
+  const stages = target.version ? feature.stages.filter(s => atLeast(target.version!, s.since)) : feature.stages;
+  if (stages.length === 0) return `needs Tekton Pipelines v${feature.stages[0].since} or later (target: ${target.version})`;
+  const needed = stages[stages.length - 1].apiFields;
+  if (API_FIELDS.indexOf(apiFieldsOf(target)) < API_FIELDS.indexOf(needed)) {
+    return `needs enable-api-fields: ${needed}${target.version ? ` on v${releaseOf(target.version).join(".")}` : ""} (target: ${apiFieldsOf(target)})`;
+  }
+  if (feature.flag && target.featureFlags[feature.flag] !== "true") return `needs ${feature.flag}: "true"`;
+  return undefined;
+}
+
+function describeTargetVersion(target: TektonTarget): string {
+  const flags = Object.entries(target.featureFlags).map(([k, v]) => `${k}: ${v}`);
+  return `Tekton Pipelines ${target.version ? `v${releaseOf(target.version).join(".")}` : "(any release)"}${flags.length ? ` with ${flags.join(", ")}` : ""}`;
+}
+
+function violationsIn(kind: TektonKind, obj: any, target: TektonTarget): { violation: TargetViolation; drop?: () => void }[] {
+  return FEATURES.flatMap(feature => {
+    const reason = unavailable(feature, target);
+    if (!reason) return [];
+    return feature.uses(kind, obj).map(use => ({
+      violation: { feature: feature.name, path: use.path, message: `${feature.description}: ${reason}`, downgradable: !!use.drop },
+      drop: use.drop
+    }));
+  });
+}
+
+// Every use of a feature `target` does not support. Unknown kinds have none.
+export function checkTarget(yamlStr: string, target: TektonTarget): TargetViolation[] {
+  const obj = YAML.parse(yamlStr);
+  const kind = detectKind(obj);
+  return kind ? violationsIn(kind, obj, target).map(v => v.violation) : [];
+}
+
+export function targetIssues(violations: TargetViolation[]): ValidationIssue[] {
+  return violations.map(v => ({ path: v.path, message: v.message, keyword: "target", params: { feature: v.feature } }));
+}
+
+// Holds an update to the target: uses `originalYaml` already had are
+// reported but left alone (the cluster evidently runs it, or it was broken
+// before), new cosmetic ones are removed, and any other new one throws a
+// TektonValidationError.
+export function enforceTarget(originalYaml: string, updatedYaml: string, target: TektonTarget): { yaml: string; notes: string[] } {
+  const updated = YAML.parse(updatedYaml);
+  const kind = detectKind(updated);
+  if (!kind) return { yaml: updatedYaml, notes: [] };
+  const before = new Set(checkTarget(originalYaml, target).map(v => `${v.feature}|${v.path}`));
+  const found = violationsIn(kind, updated, target);
+  const existing = found.filter(f => before.has(`${f.violation.feature}|${f.violation.path}`));
+  const introduced = found.filter(f => !before.has(`${f.violation.feature}|${f.violation.path}`));
+
+  const rejected = introduced.filter(f => !f.drop).map(f => f.violation);
+  if (rejected.length > 0) {
+    throw new TektonValidationError(kind, targetIssues(rejected));
+  }
+
+  const notes = existing.map(f => `Target: ${f.violation.path} already uses ${f.violation.feature} (${f.violation.message}); left as is`);
+  const dropped = introduced.filter(f => f.drop);
+  if (dropped.length === 0) return { yaml: updatedYaml, notes };
+  dropped.forEach(f => f.drop!());
+  notes.push(...dropped.map(f => `Target: removed ${f.violation.path} (${f.violation.message})`));
+  return { yaml: patchYamlSource(updatedYaml, updated), notes };
+}
+
+// For the LLM prompt: the target and what it rules out.
+export function describeTarget(target: TektonTarget): string {
+  const unsupported = FEATURES.map(f => [f, unavailable(f, target)] as const).filter(([, reason]) => reason);
+  return [
+    `Target cluster: ${describeTargetVersion(target)}.`,
+    ...(unsupported.length ? ["Do not use these features, which the target does not support:", ...unsupported.map(([f, reason]) => `- ${f.description}: ${reason}`)] : [])
+  ].join("\n");
+}
+
+// "enable-api-fields=beta,enable-step-actions=true", or the path of the
+// cluster's feature-flags ConfigMap (`kubectl get cm feature-flags -n
+// tekton-pipelines -o yaml`).
+export function parseFeatureFlags(value: string): Record<string, string> {
+  if (fs.existsSync(path.resolve(value))) {
+    const data = YAML.parse(fs.readFileSync(path.resolve(value), "utf8"))?.data;
+    if (!data || typeof data !== "object") throw new Error(`${value} has no data; expected the feature-flags ConfigMap`);
+    return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, String(v)]));
+  }
+  const flags: Record<string, string> = {};
+  for (const pair of value.split(",").map(p => p.trim()).filter(Boolean)) {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid feature flag "${pair}"; expected name=value`);
+    flags[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+  }
+  return flags;
+}
+
+// The target from explicit settings or $TEKTON_PIPELINES_VERSION and
+// $TEKTON_FEATURE_FLAGS; undefined when neither is set (no targeting).
+export function loadTarget(
+  version: string | undefined = process.env.TEKTON_PIPELINES_VERSION,
+  featureFlags: string | undefined = process.env.TEKTON_FEATURE_FLAGS
+): TektonTarget | undefined {
+  if (!version && !featureFlags) return undefined;
+  const target: TektonTarget = { version: version || undefined, featureFlags: featureFlags ? parseFeatureFlags(featureFlags) : {} };
+  if (target.version) releaseOf(target.version);
+  apiFieldsOf(target);
+  return target;
+}
@@ -1,88 +1,220 @@
 import YAML from "yaml";
-import Ajv from "ajv";
+import Ajv, { ValidateFunction } from "ajv";
 import fs from "node:fs";
 import path from "node:path";
-import schema from "./schemas/task.schema.json" assert { type: "json" };
-import { DeterministicRuleResult, JumpstarterChange } from "../types.js";
+import taskSchema from "./schemas/task.schema.json" with { type: "json" };
+import pipelineSchema from "./schemas/pipeline.schema.json" with { type: "json" };
+import taskRunSchema from "./schemas/taskrun.schema.json" with { type: "json" };
+import pipelineRunSchema from "./schemas/pipelinerun.schema.json" with { type: "json" };
+import stepActionSchema from "./schemas/stepaction.schema.json" with { type: "json" };
+import kubernetesRbacSchema from "./schemas/kubernetes-rbac.schema.json" with { type: "json" };
+import { DeterministicRuleResult, JumpstarterChange, MergeResult, ValidationIssue } from "../types.js";
+import { TektonKind, SUPPORTED_KINDS, detectKind, applyRequirementToKind } from "./kinds.js";
+import { applySuggestedParams } from "./suggested.js";
+import { applySecurityRules } from "./security.js";
+import { RuleDefinition, loadRules, matchingChanges, renderRuleNotes, ruleRequirement } from "./rules.js";
+import { threeWayMerge } from "./merge.js";
+import { patchYamlSource } from "./yaml-edit.js";
+import { toValidationIssues } from "./validation.js";
 
 const ajv = new Ajv({allErrors:true});
 
+// Tekton rejects lists that repeat a name (params, steps, ...); JSON Schema's
+// uniqueItems only compares whole items, so key uniqueness is a custom keyword.
+ajv.addKeyword({
+  keyword: "uniqueItemProperties",
+  type: "array",
+  schemaType: "array",
+  errors: true,
+  validate: function uniqueItemProperties(keys: string[], data: any[], _parent?: any, cxt?: any) {
+    const errors: any[] = [];
+    for (const key of keys) {
+      const seen = new Map<string, number>();
+      data.forEach((item, i) => {
+        if (!item || typeof item !== "object" || item[key] === undefined) return;
+        const value = String(item[key]);
+        if (seen.has(value)) {
+          errors.push({
+            keyword: "uniqueItemProperties",
+            instancePath: `${cxt?.instancePath ?? ""}/${i}/${key}`,
+            params: { property: key, duplicate: value, firstIndex: seen.get(value) },
+            message: `duplicate ${key} "${value}" (first defined at index ${seen.get(value)})`
+          });
+        } else {
+          seen.set(value, i);
+        }
+      });
+    }
+    (uniqueItemProperties as any).errors = errors;
+    return errors.length === 0;
+  }
+});
+
+// Task first: the other schemas $ref its definitions by $id.
+const validators: Record<TektonKind, ValidateFunction> = {
+  Task: ajv.compile(taskSchema as any),
+  Pipeline: ajv.compile(pipelineSchema as any),
+  TaskRun: ajv.compile(taskRunSchema as any),
+  PipelineRun: ajv.compile(pipelineRunSchema as any),
+  StepAction: ajv.compile(stepActionSchema as any)
+};
+
+// Companion manifests (see rbac.ts) are plain Kubernetes objects.
+ajv.addSchema(kubernetesRbacSchema as any);
+const kubernetesValidators: Record<string, ValidateFunction> = {
+  ServiceAccount: ajv.getSchema("https://kubernetes.io/schemas/rbac.json#/definitions/serviceAccount")!,
+  Role: ajv.getSchema("https://kubernetes.io/schemas/rbac.json#/definitions/role")!,
+  ClusterRole: ajv.getSchema("https://kubernetes.io/schemas/rbac.json#/definitions/role")!,
+  RoleBinding: ajv.getSchema("https://kubernetes.io/schemas/rbac.json#/definitions/roleBinding")!,
+  ClusterRoleBinding: ajv.getSchema("https://kubernetes.io/schemas/rbac.json#/definitions/roleBinding")!
+};
+
+export class TektonValidationError extends Error {
+  constructor(public readonly kind: string, public readonly errors: ValidationIssue[]) {
+    super(`Tekton ${kind} schema validation failed: ` + errors.map(e => `${e.path}: ${e.message}`).join("; "));
+    this.name = "TektonValidationError";
+  }
+}
+
+function parseForCheck(yamlStr: string): { obj: any; errors: ValidationIssue[] } {
+  try {
+    return { obj: YAML.parse(yamlStr), errors: [] };
+  } catch (e: any) {
+    return { obj: undefined, errors: [{ path: "(root)", message: "invalid YAML: " + e.message, keyword: "parse" }] };
+  }
+}
+
+function runValidator(kind: TektonKind, obj: any): ValidationIssue[] {
+  const validate = validators[kind];
+  if (validate(obj)) return [];
+  const errors = toValidationIssues(validate.errors);
+  // The schemas are v1 only; point v1beta1 Tasks/Pipelines at `agent migrate`
+  if (obj?.apiVersion === "tekton.dev/v1beta1" && (kind === "Task" || kind === "Pipeline")) {
+    errors.forEach(e => {
+      if (e.path === "apiVersion") e.message = "is tekton.dev/v1beta1; convert it with `agent migrate` first";
+    });
+  }
+  return errors;
+}
+
+// Non-throwing variant: returns every schema violation, addressed by field path.
+export function checkTaskYaml(yamlStr: string): { obj: any; errors: ValidationIssue[] } {
+  const parsed = parseForCheck(yamlStr);
+  if (parsed.errors.length) return parsed;
+  return { obj: parsed.obj, errors: runValidator("Task", parsed.obj) };
+}
+
 export function validateTaskYaml(yamlStr: string) {
-  const obj = YAML.parse(yamlStr);
-  const validate = ajv.compile(schema as any);
-  const ok = validate(obj);
-  if (!ok) {
-    const msg = ajv.errorsText(validate.errors);
-    throw new Error("Tekton Task schema validation failed: " + msg);
+  const { obj, errors } = checkTaskYaml(yamlStr);
+  if (errors.length) throw new TektonValidationError("Task", errors);
+  return obj;
+}
+
+// Validates any supported Tekton kind against that kind's schema.
+export function checkResourceYaml(yamlStr: string): { obj: any; kind?: TektonKind; errors: ValidationIssue[] } {
+  const parsed = parseForCheck(yamlStr);
+  if (parsed.errors.length) return parsed;
+  const kind = detectKind(parsed.obj);
+  if (!kind) {
+    return {
+      obj: parsed.obj,
+      errors: [{ path: "kind", message: `must be one of: ${SUPPORTED_KINDS.join(", ")}`, keyword: "kind", params: { kind: parsed.obj?.kind } }]
+    };
+  }
+  return { obj: parsed.obj, kind, errors: runValidator(kind, parsed.obj) };
+}
+
+export function validateResourceYaml(yamlStr: string) {
+  const { obj, kind, errors } = checkResourceYaml(yamlStr);
+  if (errors.length) throw new TektonValidationError(kind || "resource", errors);
+  return obj;
+}
+
+// Validates a ServiceAccount, (Cluster)Role or (Cluster)RoleBinding object.
+export function checkKubernetesManifest(obj: any): ValidationIssue[] {
+  const validate = kubernetesValidators[obj?.kind];
+  if (!validate) {
+    return [{ path: "kind", message: `must be one of: ${Object.keys(kubernetesValidators).join(", ")}`, keyword: "kind", params: { kind: obj?.kind } }];
   }
+  return validate(obj) ? [] : toValidationIssues(validate.errors);
+}
+
+export function validateKubernetesManifest(obj: any) {
+  const errors = checkKubernetesManifest(obj);
+  if (errors.length) throw new TektonValidationError(obj?.kind || "manifest", errors);
   return obj;
 }
 
-// Simple deterministic rules that generalize frequent Jumpstarter updates.
-export function applyDeterministicRules(yamlStr: string, changes: JumpstarterChange[]): DeterministicRuleResult[] {
+// Runs each rule (built-in and rule packs, see rules.ts) whose match conditions
+// hold for at least one change. kinds.ts decides where each action lands for
+// the resource at hand (Task params, Pipeline wiring, run values, ...).
+export function applyDeterministicRules(
+  yamlStr: string,
+  changes: JumpstarterChange[],
+  rules: RuleDefinition[] = loadRules()
+): DeterministicRuleResult[] {
   const obj = YAML.parse(yamlStr);
+  const kind = detectKind(obj);
   const results: DeterministicRuleResult[] = [];
 
-  // Rule 1: If change mentions "secondary network", ensure NET_ATTACH_DEF param exists
-  {
-    const name = "ensure-secondary-network-param";
-    const mentionsSecondary = changes.some(c =>
-      /secondary\s+network|multus|nad/i.test([c.title,c.description].join(" "))
-    );
-    if (mentionsSecondary) {
-      obj.spec.params = obj.spec.params || [];
-      const hasParam = (obj.spec.params as any[]).some(p => p.name === "secondaryNetworkNAD");
-      if (!hasParam) {
-        (obj.spec.params as any[]).push({ name: "secondaryNetworkNAD", type: "string", description: "NetworkAttachmentDefinition name for secondary network (Multus)." });
-        results.push({ name, changed: true, notes: ["Added param secondaryNetworkNAD"], yaml: YAML.stringify(obj) });
-      } else {
-        results.push({ name, changed: false, notes: ["Param already present"] });
-      }
-    }
+  if (!kind) {
+    return [{ name: "detect-kind", changed: false, notes: [`Unsupported kind "${obj?.kind}"; no rules applied`] }];
   }
 
-  // Rule 2: Add results placeholder when change mentions "export" or "artifact"
-  {
-    const name = "ensure-results-for-artifacts";
-    const mentionsArtifacts = changes.some(c => /artifact|result|export/i.test([c.title,c.description].join(" ")));
-    if (mentionsArtifacts) {
-      obj.spec.results = obj.spec.results || [];
-      const hasRes = (obj.spec.results as any[]).some(r => r.name === "artifactDigest");
-      if (!hasRes) {
-        (obj.spec.results as any[]).push({ name: "artifactDigest", description: "Digest of produced artifact/image" });
-        results.push({ name, changed: true, notes: ["Added result artifactDigest"], yaml: YAML.stringify(obj) });
-      } else {
-        results.push({ name, changed: false, notes: ["Result already present"] });
-      }
+  for (const rule of rules) {
+    const matched = matchingChanges(rule, changes);
+    if (matched.length === 0) continue;
+    const applied = applyRequirementToKind(kind, obj, ruleRequirement(rule), matched);
+    const summary = renderRuleNotes(rule, matched);
+    const notes = summary ? [summary, ...applied.notes] : applied.notes;
+    if (applied.changed) {
+      results.push({ name: rule.name, changed: true, notes, yaml: patchYamlSource(yamlStr, obj) });
+    } else {
+      results.push({ name: rule.name, changed: false, notes: applied.notes.length ? applied.notes : [`Nothing to change on this ${kind}`] });
     }
   }
 
-  // Rule 3: For Buildah users, ensure QUAY_URL param when change mentions "quay"
-  {
-    const name = "ensure-quay-url-param";
-    const mentionsQuay = changes.some(c => /quay\.io|quay/i.test([c.title,c.description].join(" ")));
-    if (mentionsQuay) {
-      obj.spec.params = obj.spec.params || [];
-      const hasParam = (obj.spec.params as any[]).some(p => p.name === "quayUrl");
-      if (!hasParam) {
-        (obj.spec.params as any[]).push({ name: "quayUrl", type: "string", description: "Target Quay repository (e.g., quay.io/org/repo)" });
-        results.push({ name, changed: true, notes: ["Added param quayUrl"], yaml: YAML.stringify(obj) });
-      } else {
-        results.push({ name, changed: false, notes: ["Param already present"] });
-      }
-    }
+  for (const { name, applied } of applySecurityRules(kind, obj, changes)) {
+    results.push(applied.changed
+      ? { name, changed: true, notes: applied.notes, yaml: patchYamlSource(yamlStr, obj), requiresReview: true }
+      : { name, changed: false, notes: applied.notes.length ? applied.notes : [`Nothing to change on this ${kind}`] });
+  }
+
+  // Runs after the rule packs so a rule's hand-written description wins
+  if (changes.some(c => c.suggestedParams && Object.keys(c.suggestedParams).length > 0)) {
+    const applied = applySuggestedParams(kind, obj, changes);
+    results.push(applied.changed
+      ? { name: "params-from-suggested", changed: true, notes: applied.notes, yaml: patchYamlSource(yamlStr, obj) }
+      : { name: "params-from-suggested", changed: false, notes: applied.notes.length ? applied.notes : ["No suggested params left to declare"] });
   }
 
   return results;
 }
 
-export function mergeYAMLs(preferred: string, fallback: string): string {
-  // naive: prefer preferred; fallback unused for now; kept for future merge strategies
-  return preferred || fallback;
+// Three-way merge of the original resource, the deterministic rule output and
+// the LLM output. Rule additions the LLM dropped are restored; values both
+// sides changed differently come back as conflicts instead of a silent winner.
+// The result is written back onto the original text, keeping its comments.
+export function mergeYAMLs(originalYaml: string, ruleYaml: string, llmYaml: string): MergeResult {
+  const { merged, conflicts } = threeWayMerge(YAML.parse(originalYaml), YAML.parse(ruleYaml), YAML.parse(llmYaml));
+  return {
+    yaml: patchYamlSource(originalYaml, merged),
+    conflicts,
+    notes: conflicts.map(c => `Merge conflict at ${c.path}: ${c.note}`)
+  };
 }
 
+// Writes via a temp file in the same directory and a rename, so a reader (or
+// an interrupted run) never sees a half-written file.
 export async function writeOut(outPath: string, content: string) {
   const full = path.resolve(outPath);
   fs.mkdirSync(path.dirname(full), { recursive: true });
-  fs.writeFileSync(full, content, "utf8");
+  const tmp = path.join(path.dirname(full), `.${path.basename(full)}.${process.pid}.tmp`);
+  try {
+    fs.writeFileSync(tmp, content, "utf8");
+    fs.renameSync(tmp, full);
+  } catch (e) {
+    fs.rmSync(tmp, { force: true });
+    throw e;
+  }
 }
@@ -0,0 +1,68 @@
+// Ajv errors as field-path issues, shared by every schema check: Tekton
+// resources and companion manifests (updater.ts), rule packs (rules.ts),
+// Jumpstarter changes and LLM edit ops.
+import { ErrorObject } from "ajv";
+import { ValidationIssue } from "../types.js";
+
+// "/spec/steps/0/image" -> "spec.steps[0].image"
+function pointerToPath(pointer: string): string {
+  return pointer.split("/").slice(1).reduce((acc, seg) => {
+    const key = seg.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (/^\d+$/.test(key)) return `${acc}[${key}]`;
+    return acc ? `${acc}.${key}` : key;
+  }, "");
+}
+
+// Branch errors of a oneOf/anyOf ("must have taskRef", "must have taskSpec", ...)
+// read better folded into a single message on the combinator itself.
+function describeAlternatives(e: ErrorObject, branches: ErrorObject[]): string {
+  const required = branches.filter(b => b.keyword === "required").map(b => String(b.params.missingProperty));
+  const types = branches.filter(b => b.keyword === "type").map(b => String(b.params.type));
+  if (required.length === branches.length && required.length > 0) {
+    if (e.keyword === "anyOf") return `must set at least one of: ${required.join(", ")}`;
+    return e.params.passingSchemas ? `must set only one of: ${required.join(", ")}` : `must set exactly one of: ${required.join(", ")}`;
+  }
+  if (types.length > 0) return `must be of type: ${[...new Set(types)].join(" | ")}`;
+  return e.message || "is invalid";
+}
+
+export function toValidationIssues(errors: ErrorObject[] | null | undefined): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  const all = errors || [];
+  const combinators = all.filter(e => e.keyword === "oneOf" || e.keyword === "anyOf");
+  // Under the combinator's schema and at or below its instance: array items
+  // share schema paths, so the instance path tells their errors apart
+  const within = (e: ErrorObject, c: ErrorObject) => e.schemaPath.startsWith(c.schemaPath + "/") &&
+    (e.instancePath === c.instancePath || e.instancePath.startsWith(c.instancePath + "/"));
+  const branchOf = (e: ErrorObject) => combinators.find(c => c !== e && within(e, c));
+  for (const e of all) {
+    // if/then failures only repeat the error raised inside "then"; propertyNames
+    // failures are reported once below rather than again as an enum mismatch
+    if (e.keyword === "if" || (e as any).propertyName !== undefined) continue;
+    if (branchOf(e)) continue;
+    let p = pointerToPath(e.instancePath);
+    let message = e.message || "is invalid";
+    if (e.keyword === "oneOf" || e.keyword === "anyOf") {
+      message = describeAlternatives(e, all.filter(b => within(b, e)));
+    } else if (e.keyword === "required") {
+      p = p ? `${p}.${e.params.missingProperty}` : e.params.missingProperty;
+      message = "is required";
+    } else if (e.keyword === "additionalProperties" || e.keyword === "propertyNames") {
+      const field = e.params.additionalProperty ?? e.params.propertyName;
+      p = p ? `${p}.${field}` : field;
+      message = "is not a known field";
+    } else if (e.keyword === "enum") {
+      message = `must be one of: ${(e.params.allowedValues as unknown[]).join(", ")}`;
+    } else if (e.keyword === "not") {
+      message = "combines fields that cannot be used together (e.g., script with command, or ref with image)";
+    } else if (e.keyword === "const") {
+      message = `must be ${JSON.stringify(e.params.allowedValue)}`;
+    }
+    const key = `${p}|${e.keyword}|${message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    issues.push({ path: p || "(root)", message, keyword: e.keyword, params: e.params });
+  }
+  return issues;
+}
@@ -0,0 +1,144 @@
+// Semantic version bumps for catalog-style resources: the level comes from
+// what the update did to the resource's interface (params, results,
+// workspaces), the version lives in the app.kubernetes.io/version label and
+// the Jumpstarter change IDs behind it in an annotation.
+import fs from "node:fs";
+import YAML from "yaml";
+import { JumpstarterChange } from "../types.js";
+import { jsonPatch } from "./diff.js";
+import { patchYamlSource } from "./yaml-edit.js";
+
+export const VERSION_LABEL = "app.kubernetes.io/version";
+export const CHANGE_IDS_ANNOTATION = "jumpstarter.dev/change-ids";
+
+export type BumpLevel = "major" | "minor" | "patch" | "none";
+
+export type VersionBump = {
+  level: BumpLevel;
+  reasons: string[];
+  from?: string;
+  to?: string; // unset when there was no version to bump
+};
+
+const RANK: Record<BumpLevel, number> = { none: 0, patch: 1, minor: 2, major: 3 };
+
+function byName(list: unknown): Map<string, any> {
+  return new Map((Array.isArray(list) ? list : []).filter(i => typeof i?.name === "string").map(i => [i.name, i]));
+}
+
+// Removing or retyping anything callers pass or read, or adding something
+// they must now pass, is major; additions they may ignore are minor; any
+// other change is a patch.
+export function bumpLevel(original: any, updated: any): { level: BumpLevel; reasons: string[] } {
+  const findings: { level: BumpLevel; section: string; reason: string }[] = [];
+  const add = (level: BumpLevel, section: string, reason: string) => findings.push({ level, section, reason });
+
+  const params = [byName(original?.spec?.params), byName(updated?.spec?.params)];
+  for (const [name, p] of params[0]) {
+    const after = params[1].get(name);
+    if (!after) add("major", "spec.params", `Removed param ${name}`);
+    else if ((p.type || "string") !== (after.type || "string")) add("major", "spec.params", `Changed type of param ${name} from ${p.type || "string"} to ${after.type || "string"}`);
+    else if (p.default !== undefined && after.default === undefined) add("major", "spec.params", `Param ${name} no longer has a default`);
+  }
+  for (const [name, p] of params[1]) {
+    if (params[0].has(name)) continue;
+    if (p.default !== undefined) add("minor", "spec.params", `Added optional param ${name}`);
+    else add("major", "spec.params", `Added required param ${name} (no default)`);
+  }
+
+  const results = [byName(original?.spec?.results), byName(updated?.spec?.results)];
+  for (const name of results[0].keys()) if (!results[1].has(name)) add("major", "spec.results", `Removed result ${name}`);
+  for (const name of results[1].keys()) if (!results[0].has(name)) add("minor", "spec.results", `Added result ${name}`);
+
+  const workspaces = [byName(original?.spec?.workspaces), byName(updated?.spec?.workspaces)];
+  for (const name of workspaces[0].keys()) if (!workspaces[1].has(name)) add("major", "spec.workspaces", `Removed workspace ${name}`);
+  for (const [name, w] of workspaces[1]) {
+    if (workspaces[0].has(name)) continue;
+    if (w.optional) add("minor", "spec.workspaces", `Added optional workspace ${name}`);
+    else add("major", "spec.workspaces", `Added required workspace ${name}`);
+  }
+
+  // Anything else the structural diff shows, by section; sections already
+  // explained above are not repeated
+  const explained = new Set(findings.map(f => f.section));
+  const sections = [...new Set(jsonPatch(original, updated).map(op => op.path.split("/").slice(1, 3).join(".")))];
+  sections.filter(s => !explained.has(s)).forEach(s => add("patch", s, `Changed ${s}`));
+
+  const level = findings.reduce<BumpLevel>((l, f) => (RANK[f.level] > RANK[l] ? f.level : l), "none");
+  return { level, reasons: findings.sort((a, b) => RANK[b.level] - RANK[a.level]).map(f => f.reason) };
+}
+
+// "1.4.2" + minor -> "1.5.0"; a leading "v" is kept and a pre-release or
+// build suffix is dropped. Undefined for anything that is not x.y.z.
+export function bumpVersion(version: string, level: BumpLevel): string | undefined {
+  const m = /^(v?)(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/.exec(version.trim());
+  if (!m) return undefined;
+  let [major, minor, patch] = [Number(m[2]), Number(m[3]), Number(m[4])];
+  if (level === "major") [major, minor, patch] = [major + 1, 0, 0];
+  else if (level === "minor") [minor, patch] = [minor + 1, 0];
+  else if (level === "patch") patch++;
+  return `${m[1]}${major}.${minor}.${patch}`;
+}
+
+// Bumps the version label of `updatedYaml` by what changed since
+// `originalYaml` and adds the change IDs to the annotation (keeping IDs from
+// earlier updates). Nothing is touched when the two are equal. A resource
+// without a version label only gets the annotation.
+export function applyVersionBump(originalYaml: string, updatedYaml: string, changes: JumpstarterChange[]): { yaml: string; bump: VersionBump; notes: string[] } {
+  const original = YAML.parse(originalYaml);
+  const updated = YAML.parse(updatedYaml);
+  const { level, reasons } = bumpLevel(original, updated);
+  if (level === "none") return { yaml: updatedYaml, bump: { level, reasons }, notes: [] };
+
+  const notes: string[] = [];
+  const metadata = updated.metadata = updated.metadata || {};
+  const from: string | undefined = metadata.labels?.[VERSION_LABEL];
+  let to: string | undefined;
+  if (from === undefined) {
+    notes.push(`No ${VERSION_LABEL} label; version not bumped (${level} change)`);
+  } else {
+    to = bumpVersion(String(from), level);
+    if (to) {
+      metadata.labels[VERSION_LABEL] = to;
+      notes.push(`Version ${from} -> ${to} (${level}): ${reasons.join("; ")}`);
+    } else {
+      notes.push(`${VERSION_LABEL} "${from}" is not a semantic version; not bumped (${level} change)`);
+    }
+  }
+
+  const existing = String(metadata.annotations?.[CHANGE_IDS_ANNOTATION] || "").split(",").map(s => s.trim()).filter(Boolean);
+  const ids = [...new Set([...existing, ...changes.map(c => c.id)])];
+  if (ids.length > existing.length) {
+    metadata.annotations = { ...(metadata.annotations || {}), [CHANGE_IDS_ANNOTATION]: ids.join(",") };
+  }
+
+  return { yaml: patchYamlSource(updatedYaml, updated), bump: { level, reasons, from, to }, notes };
+}
+
+// A Markdown entry for the resource's CHANGELOG, newest first.
+export function changelogEntry(name: string, bump: VersionBump, changes: JumpstarterChange[], date = new Date()): string {
+  const heading = bump.to ? `## ${bump.to} - ${date.toISOString().slice(0, 10)}` : `## Unreleased - ${date.toISOString().slice(0, 10)}`;
+  return [
+    heading,
+    "",
+    `${name}: ${bump.level} update.`,
+    "",
+    ...bump.reasons.map(r => `- ${r}`),
+    "",
+    "Jumpstarter changes:",
+    "",
+    ...changes.map(c => `- ${c.id}: ${c.title}`),
+    ""
+  ].join("\n");
+}
+
+// Inserts `entry` above the newest entry, after any title and intro text;
+// creates the file with a "# Changelog" title if needed.
+export function appendChangelog(file: string, entry: string) {
+  const current = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "# Changelog\n";
+  const firstEntry = current.search(/^## /m);
+  const next = firstEntry === -1
+    ? `${current.replace(/\n*$/, "\n")}\n${entry}`
+    : `${current.slice(0, firstEntry)}${entry}\n${current.slice(firstEntry)}`;
+  fs.writeFileSync(file, next, "utf8");
+}
@@ -0,0 +1,285 @@
+// Formatting-preserving YAML writes. Rules and merges work on plain objects;
+// patchYamlSource maps the result back onto the original text through the
+// parsed Document's node ranges, so untouched nodes keep their exact bytes
+// (comments, key order, scalar styles) and only changed nodes are re-rendered.
+import YAML, { isMap, isPair, isScalar, isSeq, Scalar } from "yaml";
+
+type Edit = { start: number; end: number; text: string };
+
+type Style = { indent: number; indentSeq: boolean };
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+// Deep equality where map key order does not matter (we append new keys).
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => sameValue(x, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const ka = Object.keys(a).filter(k => a[k] !== undefined);
+    const kb = Object.keys(b).filter(k => b[k] !== undefined);
+    return ka.length === kb.length && ka.every(k => sameValue(a[k], b[k]));
+  }
+  return false;
+}
+
+function nodeValue(node: any): unknown {
+  return node && typeof node.toJSON === "function" ? node.toJSON() : node;
+}
+
+function keyOf(pair: any): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key);
+}
+
+function isNamedList(items: unknown[]): boolean {
+  return items.every(i => isPlainObject(i) && typeof i.name === "string") &&
+    new Set(items.map((i: any) => i.name)).size === items.length;
+}
+
+// Indentation the source already uses, so inserted blocks blend in.
+function detectStyle(doc: YAML.Document.Parsed, src: string): Style {
+  const style: Style = { indent: 2, indentSeq: true };
+  let foundIndent = false;
+  let foundSeq = false;
+  const column = (pos: number) => pos - (src.lastIndexOf("\n", pos - 1) + 1);
+  YAML.visit(doc, {
+    Pair(_, pair: any) {
+      const keyCol = pair.key?.range ? column(pair.key.range[0]) : undefined;
+      if (keyCol === undefined) return;
+      if (!foundIndent && isMap(pair.value) && !pair.value.flow && pair.value.items[0]) {
+        const child: any = pair.value.items[0];
+        if (child.key?.range) {
+          const width = column(child.key.range[0]) - keyCol;
+          if (width > 0) { style.indent = width; foundIndent = true; }
+        }
+      }
+      if (!foundSeq && isSeq(pair.value) && !pair.value.flow && pair.value.range) {
+        style.indentSeq = column(pair.value.range[0]) > keyCol;
+        foundSeq = true;
+      }
+    }
+  });
+  return style;
+}
+
+class SourcePatcher {
+  constructor(private src: string, private style: Style) {}
+
+  private lineStart(pos: number): number {
+    return this.src.lastIndexOf("\n", pos - 1) + 1;
+  }
+
+  private lineEnd(pos: number): number {
+    if (pos > 0 && this.src[pos - 1] === "\n") return pos;
+    const i = this.src.indexOf("\n", pos);
+    return i === -1 ? this.src.length : i + 1;
+  }
+
+  private column(pos: number): number {
+    return pos - this.lineStart(pos);
+  }
+
+  // Only whitespace before pos on its line: the node can be edited line-wise.
+  private startsLine(pos: number): boolean {
+    return this.src.slice(this.lineStart(pos), pos).trim() === "";
+  }
+
+  private render(value: unknown, col: number): string {
+    const text = YAML.stringify(value, { indent: this.style.indent, indentSeq: this.style.indentSeq, lineWidth: 0 });
+    const pad = " ".repeat(col);
+    return text.split("\n").map(l => (l ? pad + l : l)).join("\n");
+  }
+
+  // Keeps the source's "{a: b}" vs "{ a: b }" spacing.
+  private renderFlow(value: unknown, node: any): string {
+    const padded = /^[[{] /.test(this.src.slice(node.range[0], node.range[1]));
+    return new YAML.Document(value).toString({ collectionStyle: "flow", flowCollectionPadding: padded, lineWidth: 0 }).trimEnd();
+  }
+
+  private renderScalar(value: unknown, node: Scalar): string | null {
+    if (value !== null && typeof value === "object") return null;
+    if (typeof value === "string") {
+      if (value.includes("\n")) return null;
+      if (node.type === Scalar.QUOTE_DOUBLE) return JSON.stringify(value);
+      if (node.type === Scalar.QUOTE_SINGLE) return `'${value.replace(/'/g, "''")}'`;
+    }
+    return YAML.stringify(value, { lineWidth: 0 }).trimEnd();
+  }
+
+  // Text inserted at `pos`, starting on a fresh line even at EOF.
+  private insertion(pos: number, text: string): Edit {
+    const needsNewline = pos > 0 && this.src[pos - 1] !== "\n";
+    return { start: pos, end: pos, text: (needsNewline ? "\n" : "") + text };
+  }
+
+  // Edits that turn `node` into `value`, or null if the caller has to
+  // re-render the node as a whole.
+  patch(node: any, value: unknown): Edit[] | null {
+    if (node && sameValue(nodeValue(node), value)) return [];
+    if (!node || !node.range) return null;
+
+    if (isScalar(node)) {
+      if (node.type === Scalar.BLOCK_LITERAL || node.type === Scalar.BLOCK_FOLDED) return null;
+      const text = this.renderScalar(value, node);
+      return text === null ? null : [{ start: node.range[0], end: node.range[1], text }];
+    }
+
+    if ((isMap(node) || isSeq(node)) && node.flow) {
+      if (isMap(node) ? !isPlainObject(value) : !Array.isArray(value)) return null;
+      return [{ start: node.range[0], end: node.range[1], text: this.renderFlow(value, node) }];
+    }
+
+    if (isMap(node) && isPlainObject(value)) return this.patchMap(node, value);
+    if (isSeq(node) && Array.isArray(value)) return this.patchSeq(node, value);
+    return null;
+  }
+
+  private pairEnd(pair: any): number {
+    const last = pair.value?.range ? pair.value.range[2] : pair.key.range[2];
+    return this.lineEnd(last);
+  }
+
+  private patchMap(node: any, value: Record<string, unknown>): Edit[] | null {
+    const pairs: any[] = node.items.filter((p: any) => !!p.key?.range && isPair(p));
+    // An emptied map has no block form; the parent re-renders it as {}
+    if (pairs.length !== node.items.length || pairs.length === 0 || Object.keys(value).length === 0) return null;
+    const col = this.column(pairs[0].key.range[0]);
+    const edits: Edit[] = [];
+
+    for (const pair of pairs) {
+      const key = keyOf(pair);
+      const start = pair.key.range[0];
+      if (!(key in value)) {
+        if (!this.startsLine(start)) return null;
+        edits.push({ start: this.lineStart(start), end: this.pairEnd(pair), text: "" });
+        continue;
+      }
+      const sub = this.patch(pair.value, value[key]);
+      if (sub) {
+        edits.push(...sub);
+      } else {
+        if (!this.startsLine(start)) return null;
+        edits.push({ start: this.lineStart(start), end: this.pairEnd(pair), text: this.render({ [key]: value[key] }, col) });
+      }
+    }
+
+    const existing = new Set(pairs.map(keyOf));
+    const added = Object.keys(value).filter(k => !existing.has(k));
+    if (added.length > 0) {
+      const text = added.map(k => this.render({ [k]: value[k] }, col)).join("");
+      edits.push(this.insertion(this.pairEnd(pairs[pairs.length - 1]), text));
+    }
+    return edits;
+  }
+
+  private itemSpan(item: any): [number, number] | null {
+    if (!item?.range || !this.startsLineAfterDash(item.range[0])) return null;
+    return [this.lineStart(item.range[0]), this.lineEnd(item.range[2])];
+  }
+
+  // Seq items start right after "- "; anything else on that line blocks line edits.
+  private startsLineAfterDash(pos: number): boolean {
+    return /^\s*-\s*$/.test(this.src.slice(this.lineStart(pos), pos));
+  }
+
+  private patchSeq(node: any, value: unknown[]): Edit[] | null {
+    const items: any[] = node.items;
+    if (items.length === 0 || value.length === 0) return null;
+    const col = this.column(node.range[0]);
+    const oldValues = items.map(nodeValue);
+    const edits: Edit[] = [];
+
+    const replaceItem = (item: any, next: unknown): boolean => {
+      const sub = this.patch(item, next);
+      if (sub) { edits.push(...sub); return true; }
+      const span = this.itemSpan(item);
+      if (!span) return false;
+      edits.push({ start: span[0], end: span[1], text: this.render([next], col) });
+      return true;
+    };
+
+    if (isNamedList(oldValues) && isNamedList(value)) {
+      const newNames = value.map((v: any) => v.name as string);
+      const kept = oldValues.map((v: any) => v.name as string).filter(n => newNames.includes(n));
+      // Existing items must keep their relative order; otherwise re-render the list
+      if (kept.join("\n") !== newNames.filter(n => kept.includes(n)).join("\n")) return null;
+
+      const byName = new Map(items.map((item, i) => [(oldValues[i] as any).name as string, item]));
+      for (const [name, item] of byName) {
+        if (newNames.includes(name)) continue;
+        const span = this.itemSpan(item);
+        if (!span) return null;
+        edits.push({ start: span[0], end: span[1], text: "" });
+      }
+
+      let pending: unknown[] = [];
+      for (const next of value as any[]) {
+        const item = byName.get(next.name);
+        if (!item) { pending.push(next); continue; }
+        if (pending.length) {
+          const span = this.itemSpan(item);
+          if (!span) return null;
+          edits.push(this.insertion(span[0], this.render(pending, col)));
+          pending = [];
+        }
+        if (!replaceItem(item, next)) return null;
+      }
+      if (pending.length) edits.push(this.insertion(this.lineEnd(node.range[1]), this.render(pending, col)));
+      return edits;
+    }
+
+    // Unnamed lists: align by index, then drop or append the tail
+    const common = Math.min(items.length, value.length);
+    for (let i = 0; i < common; i++) {
+      if (!replaceItem(items[i], value[i])) return null;
+    }
+    for (let i = common; i < items.length; i++) {
+      const span = this.itemSpan(items[i]);
+      if (!span) return null;
+      edits.push({ start: span[0], end: span[1], text: "" });
+    }
+    if (value.length > items.length) {
+      edits.push(this.insertion(this.lineEnd(node.range[1]), this.render(value.slice(items.length), col)));
+    }
+    return edits;
+  }
+}
+
+function applyEdits(src: string, edits: Edit[]): string {
+  // Back to front so earlier offsets stay valid. Edits at the same offset are
+  // applied in reverse emission order, so nested content emitted first (a key
+  // appended to the last item) ends up before a sibling inserted after it.
+  const sorted = edits
+    .map((e, i) => ({ e, i }))
+    .sort((a, b) => b.e.start - a.e.start || b.e.end - a.e.end || b.i - a.i)
+    .map(x => x.e);
+  let out = src;
+  for (const e of sorted) out = out.slice(0, e.start) + e.text + out.slice(e.end);
+  return out;
+}
+
+// Rewrites `source` so that it parses to `updated`, touching only the nodes
+// that differ. Falls back to a full stringify when the source cannot be
+// mapped (parse errors, multi-document input, a changed root type).
+export function patchYamlSource(source: string, updated: unknown): string {
+  const docs = YAML.parseAllDocuments(source);
+  const doc = docs[0];
+  if (docs.length !== 1 || !doc || "empty" in doc || doc.errors.length > 0) {
+    return YAML.stringify(updated);
+  }
+  const style = detectStyle(doc, source);
+  const edits = new SourcePatcher(source, style).patch(doc.contents, updated);
+  if (!edits) return YAML.stringify(updated, { indent: style.indent, indentSeq: style.indentSeq });
+  const out = applyEdits(source, edits);
+
+  // Guard against a bad splice: the result must still mean `updated`
+  try {
+    if (sameValue(YAML.parse(out), updated)) return out;
+  } catch {
+    // fall through
+  }
+  return YAML.stringify(updated, { indent: style.indent, indentSeq: style.indentSeq });
+}
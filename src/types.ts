@@ -7,9 +7,41 @@ export type JumpstarterChange = {
   suggestedParams?: Record<string, unknown>;
 };
 
+// An impact area inferred from a change's title and description (see
+// jumpstarter/classify.ts), as opposed to one the change declares.
+export type InferredImpactArea = {
+  area: string;
+  confidence: number; // 0-1
+  evidence: string[]; // matched words, or the LLM's reason
+  source: "keywords" | "llm" | "keywords+llm";
+};
+
+export type ImpactClassification = {
+  changeId: string;
+  declared: string[]; // the change's own impactAreas
+  inferred: InferredImpactArea[]; // only for changes that declare none
+  confidence: number; // highest inferred confidence; 1 for declared areas, 0 when nothing was recognized
+};
+
+// A typed edit the LLM proposes instead of rewriting the resource (see
+// llm/edits.ts and llm/schemas/edit-ops.schema.json).
+export type LLMEditOp =
+  | { op: "addParam"; name: string; type?: "string" | "array" | "object"; description?: string; default?: unknown; rationale: string }
+  | { op: "addResult"; name: string; description?: string; rationale: string }
+  | { op: "addEnv"; name: string; value: string; step?: string; rationale: string }
+  | { op: "modifyStepScript"; step: string; before: string; after: string; rationale: string };
+
 export type Proposal = {
   notes: string[];
   updatedTaskYAML: string; // full YAML content
+  ops?: LLMEditOp[]; // the LLM's edits, as applied to produce updatedTaskYAML
+  response?: string; // the model's reply the ops came from
+};
+
+// A failed proposal sent back to the model: its reply and what was wrong with it.
+export type RepairRequest = {
+  previous: string;
+  errors: string[];
 };
 
 export type DeterministicRuleResult = {
@@ -17,4 +49,71 @@ export type DeterministicRuleResult = {
   changed: boolean;
   notes: string[];
   yaml?: string;
+  requiresReview?: boolean; // security-sensitive edit; never auto-applied
+};
+
+// ServiceAccount/Role/binding emitted next to the updated resource (see tekton/rbac.ts)
+export type CompanionManifest = {
+  kind: string;
+  name: string;
+  object: Record<string, unknown>;
+  yaml: string;
+};
+
+export type ValidationIssue = {
+  path: string; // e.g., "spec.steps[0].image"
+  message: string;
+  keyword: string; // schema keyword that failed, e.g., "required"
+  params?: Record<string, unknown>;
+};
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintFinding = {
+  rule: string; // e.g., "undefined-param", "unused-workspace"
+  severity: LintSeverity;
+  message: string;
+  path: string;
+};
+
+export type MergeConflict = {
+  path: string; // e.g., "spec.steps[build].script"
+  reason: "both-modified" | "modify-delete" | "type-change";
+  base?: unknown;
+  rules?: unknown;
+  llm?: unknown;
+  resolution: "base" | "rules" | "llm"; // which value the merged YAML carries
+  note: string;
+};
+
+// RFC 6902 operation; `source` (ignored by patch tools) names the rule that
+// produced it, or "llm" for edits no rule accounts for. Proposals only emit
+// add/remove/replace; apply accepts the rest.
+export type JsonPatchOperation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test";
+  path: string; // JSON Pointer, e.g. "/spec/params/1"
+  from?: string; // move/copy
+  value?: unknown;
+  source?: string;
+};
+
+// Why a patch did not apply to the Task as it is now.
+export type PatchConflict = {
+  location: string; // "base", "op 3 (replace /spec/steps/0/image)", "hunk 2 (@@ -10,6 +10,8 @@)"
+  message: string;
+  expected?: string;
+  actual?: string;
+};
+
+// A v1beta1 construct `migrate` could not express in tekton.dev/v1.
+export type MigrationIssue = {
+  path: string; // e.g., "spec.resources.outputs[0]"
+  construct: string; // e.g., "PipelineResource (image)", "conditions"
+  message: string; // what to do instead
+};
+
+export type MergeResult = {
+  yaml: string;
+  conflicts: MergeConflict[];
+  notes: string[];
 };